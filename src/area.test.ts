@@ -0,0 +1,281 @@
+import { describe, test, expect } from "bun:test";
+import { getAreaExtent, getTileRangesForArea } from "./area";
+import { createXYZTileGrid } from "./tilegrid";
+import { processTilesConfig } from "./tiles";
+import type { AreaOfInterest, TileRange, XYZTileGrid } from "./types";
+
+// Grid of 10x10 tiles of one degree, tile x = floor(lon), tile y = floor(10 - lat)
+const grid: XYZTileGrid = {
+  extent: [0, 0, 10, 10],
+  minZoom: 0,
+  maxZoom: 0,
+  tileSize: 1,
+  resolutions: [1],
+};
+const bounds: TileRange = { zoom: 0, minX: 0, maxX: 9, minY: 0, maxY: 9, count: 100 };
+
+function getTiles(area: AreaOfInterest, buffer: number = 0): Set<string> {
+  const tiles = new Set<string>();
+  for (const range of getTileRangesForArea(area, buffer, "EPSG:4326", bounds, grid)) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        tiles.add(`${x}/${y}`);
+      }
+    }
+  }
+  return tiles;
+}
+
+function square(min: number, max: number): number[][] {
+  return [
+    [min, min],
+    [max, min],
+    [max, max],
+    [min, max],
+    [min, min],
+  ];
+}
+
+describe("getTileRangesForArea", () => {
+  test("covers a rectangle with a single range", () => {
+    const ranges = getTileRangesForArea(
+      { type: "Polygon", coordinates: [square(1.5, 4.5)] },
+      0,
+      "EPSG:4326",
+      bounds,
+      grid
+    );
+
+    expect(ranges).toEqual([{ zoom: 0, minX: 1, maxX: 4, minY: 5, maxY: 8, count: 16 }]);
+  });
+
+  test("excludes tiles within holes", () => {
+    const tiles = getTiles({
+      type: "Polygon",
+      coordinates: [square(0.5, 8.5), square(2.5, 6.5)],
+    });
+
+    expect(tiles.size).toBe(81 - 9);
+    expect(tiles.has("4/5")).toBe(false);
+    expect(tiles.has("2/5")).toBe(true);
+  });
+
+  test("covers only the parts of a MultiPolygon", () => {
+    const tiles = getTiles({
+      type: "MultiPolygon",
+      coordinates: [[square(0.5, 1.5)], [square(7.5, 8.5)]],
+    });
+
+    expect([...tiles].sort()).toEqual(["0/8", "0/9", "1/8", "1/9", "7/1", "7/2", "8/1", "8/2"]);
+  });
+
+  test("covers the tiles along a diagonal LineString", () => {
+    const tiles = getTiles({
+      type: "LineString",
+      coordinates: [
+        [0.5, 0.3],
+        [9.5, 9.1],
+      ],
+    });
+
+    for (let t = 0; t <= 1; t += 0.01) {
+      const lon = 0.5 + 9 * t;
+      const lat = 0.3 + 8.8 * t;
+      expect(tiles.has(`${Math.floor(lon)}/${Math.floor(10 - lat)}`)).toBe(true);
+    }
+    expect(tiles.size).toBeLessThan(20);
+  });
+
+  test("follows long edges that are curved in the tile grid's CRS", () => {
+    const mercator = createXYZTileGrid(
+      [-20037508.342789244, -20037508.342789244, 20037508.342789244, 20037508.342789244],
+      0,
+      5
+    );
+    const ranges = getTileRangesForArea(
+      {
+        type: "LineString",
+        coordinates: [
+          [-80, -60],
+          [80, 70],
+        ],
+      },
+      0,
+      "EPSG:3857",
+      { zoom: 5, minX: 0, maxX: 31, minY: 0, maxY: 31, count: 1024 },
+      mercator
+    );
+    const tiles = new Set(
+      ranges.flatMap((range) =>
+        Array.from({ length: range.maxX - range.minX + 1 }, (_, i) =>
+          Array.from({ length: range.maxY - range.minY + 1 }, (_, j) => {
+            return `${range.minX + i}/${range.minY + j}`;
+          })
+        ).flat()
+      )
+    );
+
+    for (let t = 0; t <= 1; t += 0.001) {
+      const lon = -80 + 160 * t;
+      const lat = ((-60 + 130 * t) * Math.PI) / 180;
+      const x = Math.floor(((lon + 180) / 360) * 32);
+      const y = Math.floor(((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * 32);
+      expect(tiles.has(`${x}/${y}`)).toBe(true);
+    }
+  });
+
+  test("extends a LineString by the buffer", () => {
+    const line: AreaOfInterest = {
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [2.5, 5.5],
+          [6.5, 5.5],
+        ],
+      },
+    };
+
+    expect([...getTiles(line)].sort()).toEqual(["2/4", "3/4", "4/4", "5/4", "6/4"]);
+
+    // About 0.6 degrees
+    const tiles = getTiles(line, 66800);
+    expect(tiles.has("1/4")).toBe(true);
+    expect(tiles.has("7/4")).toBe(true);
+    expect(tiles.has("4/3")).toBe(true);
+    expect(tiles.has("4/5")).toBe(true);
+    expect(tiles.has("4/2")).toBe(false);
+    expect(tiles.has("1/3")).toBe(false);
+  });
+
+  test("limits the tiles to the bounds", () => {
+    const ranges = getTileRangesForArea(
+      { type: "Polygon", coordinates: [square(1.5, 4.5)] },
+      0,
+      "EPSG:4326",
+      { zoom: 0, minX: 2, maxX: 9, minY: 0, maxY: 6, count: 56 },
+      grid
+    );
+
+    expect(ranges).toEqual([{ zoom: 0, minX: 2, maxX: 4, minY: 5, maxY: 6, count: 6 }]);
+  });
+
+  test("throws for unsupported geometries", () => {
+    expect(() =>
+      getTiles({ type: "Point", coordinates: [1, 1] } as unknown as AreaOfInterest)
+    ).toThrow("Unsupported area type Point");
+  });
+});
+
+describe("getAreaExtent", () => {
+  test("includes the buffer", () => {
+    const [west, south, east, north] = getAreaExtent(
+      {
+        type: "LineString",
+        coordinates: [
+          [10, 0],
+          [11, 0],
+        ],
+      },
+      1113.2
+    );
+
+    expect(west).toBeCloseTo(9.99, 2);
+    expect(south).toBeCloseTo(-0.01, 2);
+    expect(east).toBeCloseTo(11.01, 2);
+    expect(north).toBeCloseTo(0.01, 2);
+  });
+
+  test("has west greater than east across the antimeridian", () => {
+    const extent = getAreaExtent({
+      type: "Polygon",
+      coordinates: [
+        [
+          [170, -10],
+          [-170, -10],
+          [-170, 10],
+          [170, 10],
+          [170, -10],
+        ],
+      ],
+    });
+
+    expect(extent).toEqual([170, -10, -170, 10]);
+  });
+});
+
+describe("processTilesConfig with area", () => {
+  test("counts only the tiles intersecting the area", async () => {
+    const corridor: AreaOfInterest = {
+      type: "LineString",
+      coordinates: [
+        [13.3, 52.5],
+        [13.5, 52.6],
+      ],
+    };
+
+    const areaConfig = await processTilesConfig({
+      url: "http://localhost/{z}/{x}/{y}.png",
+      area: corridor,
+      buffer: 100,
+      minZoom: 14,
+      maxZoom: 15,
+      crs: "EPSG:3857",
+    });
+    const bboxConfig = await processTilesConfig({
+      url: "http://localhost/{z}/{x}/{y}.png",
+      bbox: areaConfig.bbox,
+      minZoom: 14,
+      maxZoom: 15,
+      crs: "EPSG:3857",
+    });
+
+    expect(areaConfig.bbox[0]).toBeLessThan(13.3);
+    expect(areaConfig.bbox[3]).toBeGreaterThan(52.6);
+    expect(areaConfig.totalCount).toBe(
+      areaConfig.tileRanges.reduce((count, range) => count + range.count, 0)
+    );
+    expect(areaConfig.totalCount).toBeLessThan(bboxConfig.totalCount / 2);
+  });
+
+  test("splits areas at the antimeridian", async () => {
+    const config = await processTilesConfig({
+      url: "http://localhost/{z}/{x}/{y}.png",
+      area: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [170, -10],
+            [-170, -10],
+            [-170, 10],
+            [170, 10],
+            [170, -10],
+          ],
+        ],
+      },
+      minZoom: 3,
+      maxZoom: 3,
+      crs: "EPSG:3857",
+    });
+
+    // Tiles of 45 degrees, the area touches the first and the last column
+    expect(config.totalCount).toBe(4);
+    expect(
+      config.tileRanges.map(({ minX, maxX, minY, maxY }) => [minX, maxX, minY, maxY]).sort()
+    ).toEqual([
+      [0, 0, 3, 4],
+      [7, 7, 3, 4],
+    ]);
+  });
+
+  test("throws without bbox and area", async () => {
+    await expect(
+      processTilesConfig({
+        url: "http://localhost/{z}/{x}/{y}.png",
+        minZoom: 14,
+        maxZoom: 15,
+        crs: "EPSG:3857",
+      })
+    ).rejects.toThrow("Either a bounding box or an area is required");
+  });
+});
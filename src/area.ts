@@ -0,0 +1,455 @@
+import proj4 from "proj4";
+import { densifyEdge } from "./crs";
+import { getTileGridOrigin, getTileSize } from "./tilegrid";
+import type {
+  AreaGeometry,
+  AreaOfInterest,
+  Extent,
+  Position,
+  TileRange,
+  XYZTileGrid,
+} from "./types";
+
+type Point = [number, number];
+
+/**
+ * Polygons (as rings) and lines of an area of interest
+ */
+interface AreaShapes {
+  polygons: Point[][][];
+  lines: Point[][];
+}
+
+/**
+ * Tile columns covered in each row, as [minX, maxX] spans
+ */
+type RowSpans = Map<number, Point[]>;
+
+/** Approximate length of a degree of latitude in meters */
+const METERS_PER_DEGREE = 111320;
+/** Number of vertices of the polygon around a buffered point */
+const BUFFER_SEGMENTS = 16;
+/** Longest edge in degrees that is projected as a straight line */
+const MAX_EDGE_DEGREES = 0.1;
+
+function getGeometry(area: AreaOfInterest): AreaGeometry {
+  return area.type === "Feature" ? area.geometry : area;
+}
+
+function toPoints(positions: Position[]): Point[] {
+  return positions.map((position) => {
+    const [x, y] = position;
+    if (typeof x !== "number" || typeof y !== "number") {
+      throw new Error(`Invalid position ${JSON.stringify(position)} in area`);
+    }
+    return [x, y];
+  });
+}
+
+/**
+ * Make the longitudes of a path continuous, so edges crossing the antimeridian
+ * continue beyond ±180 instead of going around the world. Edges spanning more
+ * than 180 degrees cross it, unless they end on it.
+ */
+function unwrapLongitudes(path: Point[]): Point[] {
+  let offset = 0;
+  return path.map(([x, y], i) => {
+    const previous = path[i - 1];
+    if (previous && Math.abs(x) !== 180 && Math.abs(previous[0]) !== 180) {
+      const step = x - previous[0];
+      if (step > 180) offset -= 360;
+      if (step < -180) offset += 360;
+    }
+    return [x + offset, y];
+  });
+}
+
+/**
+ * Polygon around a point that contains the circle with the buffer as radius
+ */
+function createBufferCircle([lon, lat]: Point, buffer: number): Point[] {
+  const radius = buffer / Math.cos(Math.PI / BUFFER_SEGMENTS) / METERS_PER_DEGREE;
+  // Degrees of longitude get shorter towards the poles
+  const lonRadius = radius / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+
+  return Array.from({ length: BUFFER_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / BUFFER_SEGMENTS;
+    return [lon + lonRadius * Math.cos(angle), lat + radius * Math.sin(angle)];
+  });
+}
+
+/**
+ * Convex hull using the monotone chain algorithm
+ */
+function getConvexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const buildChain = (chainPoints: Point[]): Point[] => {
+    const chain: Point[] = [];
+    for (const point of chainPoints) {
+      while (
+        chain.length >= 2 &&
+        cross(chain[chain.length - 2] as Point, chain[chain.length - 1] as Point, point) <= 0
+      ) {
+        chain.pop();
+      }
+      chain.push(point);
+    }
+    return chain.slice(0, -1);
+  };
+
+  return [...buildChain(sorted), ...buildChain(sorted.reverse())];
+}
+
+/**
+ * Split an area into polygons and lines. With a buffer, every edge is
+ * replaced by a polygon around it, so lines become polygons.
+ */
+function getAreaShapes(area: AreaOfInterest, buffer: number): AreaShapes {
+  const geometry = getGeometry(area);
+
+  let polygons: Point[][][];
+  let lines: Point[][] = [];
+  if (geometry.type === "Polygon") {
+    polygons = [geometry.coordinates.map((ring) => unwrapLongitudes(toPoints(ring)))];
+  } else if (geometry.type === "MultiPolygon") {
+    polygons = geometry.coordinates.map((polygon) =>
+      polygon.map((ring) => unwrapLongitudes(toPoints(ring)))
+    );
+  } else if (geometry.type === "LineString") {
+    polygons = [];
+    lines = [unwrapLongitudes(toPoints(geometry.coordinates))];
+  } else {
+    throw new Error(
+      `Unsupported area type ${(geometry as { type: string }).type}, expected Polygon, MultiPolygon or LineString`
+    );
+  }
+
+  if (buffer <= 0) {
+    return { polygons, lines };
+  }
+
+  const buffered = [...lines, ...polygons.flat()].flatMap((path) =>
+    path.length === 1
+      ? [[createBufferCircle(path[0] as Point, buffer)]]
+      : path.slice(1).map((point, i) => [
+          getConvexHull([
+            ...createBufferCircle(path[i] as Point, buffer),
+            ...createBufferCircle(point, buffer),
+          ]),
+        ])
+  );
+
+  return { polygons: [...polygons, ...buffered], lines: [] };
+}
+
+/**
+ * Bounding box of an area of interest, including the buffer. For areas
+ * crossing the antimeridian, west is greater than east.
+ *
+ * @param area - GeoJSON geometry or feature in WGS84
+ * @param buffer - Distance in meters the area is extended by
+ */
+export function getAreaExtent(area: AreaOfInterest, buffer: number = 0): Extent {
+  const { polygons, lines } = getAreaShapes(area, buffer);
+  const points = [...polygons.flat(2), ...lines.flat()];
+
+  if (points.length === 0) {
+    throw new Error("The area doesn't contain any coordinates");
+  }
+
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  if (maxX - minX >= 360) {
+    return [-180, Math.min(...ys), 180, Math.max(...ys)];
+  }
+
+  const wrap = (x: number) => (x > 180 ? x - 360 : x < -180 ? x + 360 : x);
+  return [wrap(minX), Math.min(...ys), wrap(maxX), Math.max(...ys)];
+}
+
+/**
+ * Clip a ring to the side of a vertical line (Sutherland-Hodgman)
+ */
+function clipRing(ring: Point[], limit: number, isInside: (x: number) => boolean): Point[] {
+  const clipped: Point[] = [];
+
+  ring.forEach((point, i) => {
+    const previous = ring[(i + ring.length - 1) % ring.length] as Point;
+    if (isInside(point[0]) !== isInside(previous[0])) {
+      const t = (limit - previous[0]) / (point[0] - previous[0]);
+      clipped.push([limit, previous[1] + t * (point[1] - previous[1])]);
+    }
+    if (isInside(point[0])) {
+      clipped.push(point);
+    }
+  });
+
+  return clipped;
+}
+
+/**
+ * Split the rings of a polygon at the antimeridian. The parts beyond ±180 are
+ * moved to the other side of the world.
+ */
+function splitRingsAtAntimeridian(rings: Point[][]): Point[][] {
+  if (rings.flat().every(([x]) => x >= -180 && x <= 180)) {
+    return rings;
+  }
+
+  return [-360, 0, 360].flatMap((offset) =>
+    rings
+      .map((ring) => {
+        const moved = ring.map(([x, y]): Point => [x + offset, y]);
+        return clipRing(
+          clipRing(moved, 180, (x) => x <= 180),
+          -180,
+          (x) => x >= -180
+        );
+      })
+      .filter((ring) => ring.length > 0)
+  );
+}
+
+/**
+ * Split a line at the antimeridian into its edges. The parts beyond ±180 are
+ * moved to the other side of the world.
+ */
+function splitLineAtAntimeridian(line: Point[]): Point[][] {
+  if (line.every(([x]) => x >= -180 && x <= 180)) {
+    return [line];
+  }
+
+  const at = ([x1, y1]: Point, [x2, y2]: Point, x: number): Point => [
+    x,
+    y1 + ((x - x1) / (x2 - x1)) * (y2 - y1),
+  ];
+
+  return [-360, 0, 360].flatMap((offset) =>
+    line.slice(1).flatMap((point, i): Point[][] => {
+      let start: Point = [(line[i] as Point)[0] + offset, (line[i] as Point)[1]];
+      let end: Point = [point[0] + offset, point[1]];
+      if (start[0] > end[0]) [start, end] = [end, start];
+      if (end[0] < -180 || start[0] > 180) return [];
+
+      return [
+        [
+          start[0] < -180 ? at(start, end, -180) : start,
+          end[0] > 180 ? at(start, end, 180) : end,
+        ],
+      ];
+    })
+  );
+}
+
+/**
+ * Add points along the edges of a path, so curved edges in the tile grid's CRS
+ * are followed closely
+ */
+function densifyPath(path: Point[], closed: boolean): Point[] {
+  const edgeCount = closed ? path.length : path.length - 1;
+  const points: Point[] = [];
+
+  for (let i = 0; i < edgeCount; i++) {
+    const start = path[i] as Point;
+    const end = path[(i + 1) % path.length] as Point;
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    points.push(...densifyEdge(start, end, Math.max(1, Math.ceil(length / MAX_EDGE_DEGREES))));
+  }
+
+  const last = path[path.length - 1];
+  if (!closed && last) {
+    points.push(last);
+  }
+
+  return points;
+}
+
+function addSpan(rows: RowSpans, row: number, minX: number, maxX: number, bounds: TileRange): void {
+  const start = Math.max(minX, bounds.minX);
+  const end = Math.min(maxX, bounds.maxX);
+  if (start > end) return;
+
+  const spans = rows.get(row);
+  if (spans) {
+    spans.push([start, end]);
+  } else {
+    rows.set(row, [[start, end]]);
+  }
+}
+
+/**
+ * Add the tiles crossed by the edges of a path. For polygons, also collect
+ * where the edges cross the center line of each row.
+ */
+function traceEdges(
+  path: Point[],
+  closed: boolean,
+  bounds: TileRange,
+  rows: RowSpans,
+  crossings?: Map<number, number[]>
+): void {
+  const edgeCount = closed ? path.length : path.length - 1;
+
+  for (let i = 0; i < edgeCount; i++) {
+    const [x1, y1] = path[i] as Point;
+    const [x2, y2] = path[(i + 1) % path.length] as Point;
+    const getX = (y: number) => (y1 === y2 ? x1 : x1 + ((y - y1) / (y2 - y1)) * (x2 - x1));
+
+    const firstRow = Math.max(bounds.minY, Math.floor(Math.min(y1, y2)));
+    const lastRow = Math.min(bounds.maxY, Math.floor(Math.max(y1, y2)));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      if (y1 === y2) {
+        addSpan(rows, row, Math.floor(Math.min(x1, x2)), Math.floor(Math.max(x1, x2)), bounds);
+      } else {
+        // Part of the edge within the row
+        const xTop = getX(Math.max(row, Math.min(y1, y2)));
+        const xBottom = getX(Math.min(row + 1, Math.max(y1, y2)));
+        addSpan(
+          rows,
+          row,
+          Math.floor(Math.min(xTop, xBottom)),
+          Math.floor(Math.max(xTop, xBottom)),
+          bounds
+        );
+      }
+
+      const center = row + 0.5;
+      if (crossings && y1 <= center !== y2 <= center) {
+        const rowCrossings = crossings.get(row);
+        if (rowCrossings) {
+          rowCrossings.push(getX(center));
+        } else {
+          crossings.set(row, [getX(center)]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Add the tiles with their center inside the polygon (even-odd rule).
+ * Tiles that are partially inside are found by `traceEdges`.
+ */
+function fillInterior(crossings: Map<number, number[]>, bounds: TileRange, rows: RowSpans): void {
+  for (const [row, xs] of crossings) {
+    xs.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      const start = xs[i] as number;
+      const end = xs[i + 1] as number;
+      addSpan(rows, row, Math.ceil(start - 0.5), Math.floor(end - 0.5), bounds);
+    }
+  }
+}
+
+function mergeSpans(spans: Point[]): Point[] {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  const merged: Point[] = [];
+
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Combine the spans of consecutive rows with the same columns into tile ranges
+ */
+function toTileRanges(zoom: number, rows: RowSpans): TileRange[] {
+  const tileRanges: TileRange[] = [];
+  let openRanges = new Map<string, TileRange>();
+
+  for (const row of [...rows.keys()].sort((a, b) => a - b)) {
+    const nextRanges = new Map<string, TileRange>();
+
+    for (const [minX, maxX] of mergeSpans(rows.get(row) as Point[])) {
+      const key = `${minX}/${maxX}`;
+      const width = maxX - minX + 1;
+      const openRange = openRanges.get(key);
+
+      if (openRange && openRange.maxY === row - 1) {
+        openRange.maxY = row;
+        openRange.count += width;
+        nextRanges.set(key, openRange);
+      } else {
+        const tileRange = { zoom, minX, maxX, minY: row, maxY: row, count: width };
+        tileRanges.push(tileRange);
+        nextRanges.set(key, tileRange);
+      }
+    }
+
+    openRanges = nextRanges;
+  }
+
+  return tileRanges;
+}
+
+/**
+ * Get the tiles intersecting an area of interest at a zoom level
+ *
+ * The area is split at the antimeridian, its edges are densified and
+ * projected into the tile grid, tiles crossed by its edges and tiles within
+ * its polygons are selected. Rows with the same columns are
+ * combined, so the result contains one or more tile ranges.
+ *
+ * @param area - GeoJSON geometry or feature in WGS84
+ * @param buffer - Distance in meters the area is extended by
+ * @param crs - CRS of the tile grid
+ * @param bounds - Tile range the result is limited to, e.g. the range of the bbox
+ * @param grid - Tile grid
+ */
+export function getTileRangesForArea(
+  area: AreaOfInterest,
+  buffer: number,
+  crs: string,
+  bounds: TileRange,
+  grid: XYZTileGrid
+): TileRange[] {
+  const { zoom } = bounds;
+  const resolution = grid.resolutions[zoom];
+
+  if (!resolution) {
+    throw new Error(`Zoom level ${zoom} not found in "grid.resolutions"`);
+  }
+
+  // Origin is at top-left corner
+  const [originX, originY] = getTileGridOrigin(grid, zoom);
+  const [tileWidth, tileHeight] = getTileSize(grid);
+
+  // Position in tile units, y increases from top to bottom
+  const toTilePoint = (point: Point): Point => {
+    const [x, y] = crs === "EPSG:4326" ? point : proj4("EPSG:4326", crs, point);
+    return [
+      ((x as number) - originX) / (resolution * tileWidth),
+      (originY - (y as number)) / (resolution * tileHeight),
+    ];
+  };
+
+  const { polygons, lines } = getAreaShapes(area, buffer);
+  const rows: RowSpans = new Map();
+
+  for (const polygon of polygons) {
+    const crossings = new Map<number, number[]>();
+    for (const ring of splitRingsAtAntimeridian(polygon)) {
+      traceEdges(densifyPath(ring, true).map(toTilePoint), true, bounds, rows, crossings);
+    }
+    fillInterior(crossings, bounds, rows);
+  }
+
+  for (const line of lines.flatMap(splitLineAtAntimeridian)) {
+    traceEdges(densifyPath(line, false).map(toTilePoint), false, bounds, rows);
+  }
+
+  return toTileRanges(zoom, rows);
+}
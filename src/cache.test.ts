@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryTileCache } from "./cache";
+import { FileTileCache } from "./filecache";
+import { fetchTile, fetchTiles } from "./tiles";
+import type { FetchTilesConfig, TileCacheEntry } from "./types";
+import { fakePNG, startMockServer } from "./test-utils";
+
+// Status of every response, in order
+const responses: number[] = [];
+
+const TEST_PORT = startMockServer((req) => {
+  const path = new URL(req.url).pathname;
+  const etag = `"${path}"`;
+
+  if (req.headers.get("If-None-Match") === etag) {
+    responses.push(304);
+    return new Response(null, { status: 304 });
+  }
+  responses.push(200);
+  return new Response(fakePNG(path), {
+    headers: { "Content-Type": "image/png", ETag: etag, "Last-Modified": new Date(0).toUTCString() },
+  });
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "tile-cache-"));
+  responses.length = 0;
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function createEntry(data: string): TileCacheEntry {
+  return { blob: new Blob([data], { type: "image/png" }), storedAt: 0 };
+}
+
+describe("MemoryTileCache", () => {
+  test("evicts the least recently used tiles", async () => {
+    const cache = new MemoryTileCache({ maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await cache.set("b", createEntry("bbbb"));
+    await cache.get("a");
+    await cache.set("c", createEntry("cccc"));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+    expect(cache.byteSize).toBe(8);
+  });
+
+  test("limits the number of tiles", async () => {
+    const cache = new MemoryTileCache({ maxEntries: 1 });
+    await cache.set("a", createEntry("a"));
+    await cache.set("b", createEntry("b"));
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.get("b")).toBeDefined();
+  });
+});
+
+describe("FileTileCache", () => {
+  test("keeps the tiles and their validators on disk", async () => {
+    await new FileTileCache(directory).set("tile", {
+      ...createEntry("data"),
+      storedAt: 1000,
+      etag: '"v1"',
+    });
+
+    const entry = await new FileTileCache(directory).get("tile");
+    expect(await entry?.blob.text()).toBe("data");
+    expect(entry?.blob.type).toBe("image/png");
+    expect(entry?.storedAt).toBe(1000);
+    expect(entry?.etag).toBe('"v1"');
+    expect(await new FileTileCache(directory).get("other")).toBeUndefined();
+  });
+
+  test("evicts the least recently used tiles", async () => {
+    const cache = new FileTileCache(directory, { maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await Bun.sleep(5);
+    await cache.set("b", createEntry("bbbb"));
+    await Bun.sleep(5);
+    await cache.get("a");
+    await Bun.sleep(5);
+    await cache.set("c", createEntry("cccc"));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+    expect(await readdir(directory)).toHaveLength(4);
+  });
+
+  test("counts replaced tiles and tiles of earlier runs once", async () => {
+    const cache = new FileTileCache(directory, { maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await cache.set("a", createEntry("aaaa"));
+    await cache.set("b", createEntry("bbbb"));
+    expect(await cache.get("a")).toBeDefined();
+
+    // 12 bytes with the tiles on disk
+    const reopened = new FileTileCache(directory, { maxBytes: 10 });
+    await reopened.set("c", createEntry("cccc"));
+    expect(await readdir(directory)).toHaveLength(4);
+  });
+
+  test("deletes tiles", async () => {
+    const cache = new FileTileCache(directory);
+    await cache.set("a", createEntry("aaaa"));
+    await cache.delete("a");
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+});
+
+describe("fetchTile with cache", () => {
+  const tile = { url: `http://localhost:${TEST_PORT}/11/1099/671.png`, x: 1099, y: 671, z: 11 };
+
+  test("uses fresh tiles without a request", async () => {
+    const store = new MemoryTileCache();
+    await fetchTile(tile, { cache: { store } });
+    const cachedTile = await fetchTile(tile, { cache: { store } });
+
+    expect(new Uint8Array(await cachedTile.blob.arrayBuffer())).toEqual(
+      fakePNG("/11/1099/671.png")
+    );
+    expect(responses).toEqual([200]);
+    expect((await store.get(tile.url))?.etag).toBe('"/11/1099/671.png"');
+  });
+
+  test("revalidates expired tiles with a conditional request", async () => {
+    const store = new MemoryTileCache();
+    await fetchTile(tile, { cache: { store, ttl: 0 } });
+    const revalidatedTile = await fetchTile(tile, { cache: { store, ttl: 0 } });
+
+    expect(new Uint8Array(await revalidatedTile.blob.arrayBuffer())).toEqual(
+      fakePNG("/11/1099/671.png")
+    );
+    expect(responses).toEqual([200, 304]);
+  });
+
+  test("downloads expired tiles again without revalidation", async () => {
+    const store = new MemoryTileCache();
+    await fetchTile(tile, { cache: { store, ttl: 0, revalidate: false } });
+    await fetchTile(tile, { cache: { store, ttl: 0, revalidate: false } });
+
+    expect(responses).toEqual([200, 200]);
+  });
+
+  test("uses the key of getKey", async () => {
+    const store = new MemoryTileCache();
+    const getKey = ({ z, x, y }: { z: number; x: number; y: number }) => `osm/${z}/${x}/${y}`;
+    await fetchTile(tile, { cache: { store, getKey } });
+    // Another subdomain of the same source
+    await fetchTile({ ...tile, url: `http://127.0.0.1:${TEST_PORT}/11/1099/671.png` }, {
+      cache: { store, getKey },
+    });
+
+    expect(responses).toEqual([200]);
+    expect(await store.get("osm/11/1099/671")).toBeDefined();
+  });
+
+  test("skips the network for cached tiles of a download", async () => {
+    const config: FetchTilesConfig = {
+      url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+      bbox: [13.3, 52.5, 13.4, 52.55],
+      minZoom: 11,
+      maxZoom: 11,
+      crs: "EPSG:3857",
+      totalCount: 2,
+      tileRanges: [{ zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 671, count: 2 }],
+    };
+    const cache = { store: new FileTileCache(directory) };
+
+    for (let run = 0; run < 2; run++) {
+      const tiles = [];
+      for await (const fetchedTile of fetchTiles(config, { cache })) {
+        tiles.push(fetchedTile);
+      }
+      expect(tiles).toHaveLength(2);
+    }
+
+    expect(responses).toEqual([200, 200]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { TileCache, TileCacheEntry, TileCacheOptions, UnfetchedTile } from "./types";
+
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+export interface MemoryTileCacheOptions {
+  /** Total size of the cached tiles in bytes (default: 50 MB) */
+  maxBytes?: number;
+  /** Number of cached tiles (default: unlimited) */
+  maxEntries?: number;
+}
+
+export function getCacheKey(cache: TileCacheOptions, tile: UnfetchedTile): string {
+  return cache.getKey?.(tile) ?? tile.url;
+}
+
+/**
+ * Look up a tile in the cache. A failing store counts as a miss,
+ * so a broken cache doesn't fail the download.
+ */
+export async function readCache(
+  cache: TileCacheOptions,
+  key: string
+): Promise<TileCacheEntry | undefined> {
+  return cache.store.get(key).catch(() => undefined);
+}
+
+/**
+ * Store a tile in the cache, errors of the store are ignored
+ */
+export async function writeCache(
+  cache: TileCacheOptions,
+  key: string,
+  entry: TileCacheEntry
+): Promise<void> {
+  await cache.store.set(key, entry).catch(() => {});
+}
+
+/**
+ * Whether a cached tile can be used without asking the server
+ */
+export function isFresh(
+  cache: TileCacheOptions,
+  entry: TileCacheEntry,
+  now: number = Date.now()
+): boolean {
+  return now - entry.storedAt < (cache.ttl ?? DEFAULT_CACHE_TTL);
+}
+
+/**
+ * Headers that ask the server for the tile only if it changed since it was cached
+ */
+export function getConditionalHeaders(
+  entry: Pick<TileCacheEntry, "etag" | "lastModified">
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+  return headers;
+}
+
+/**
+ * In-memory tile cache that evicts the least recently used tiles
+ */
+export class MemoryTileCache implements TileCache {
+  // Maps keep the insertion order, a read moves the entry to the end
+  private readonly entries = new Map<string, TileCacheEntry>();
+  private size = 0;
+  private readonly maxBytes: number;
+  private readonly maxEntries: number;
+
+  constructor(options: MemoryTileCacheOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  /** Total size of the cached tiles in bytes */
+  get byteSize(): number {
+    return this.size;
+  }
+
+  async get(key: string): Promise<TileCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: TileCacheEntry): Promise<void> {
+    await this.delete(key);
+    this.entries.set(key, entry);
+    this.size += entry.blob.size;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.size <= this.maxBytes && this.entries.size <= this.maxEntries) break;
+      await this.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.blob.size;
+    }
+  }
+}
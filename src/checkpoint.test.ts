@@ -0,0 +1,81 @@
+import { describe, test, expect } from "bun:test";
+import {
+  createCheckpoint,
+  countDoneTiles,
+  getTileIndex,
+  isTileDone,
+  markTile,
+  validateCheckpoint,
+} from "./checkpoint";
+import type { FetchTilesConfig, TileRange } from "./types";
+
+const tileRange: TileRange = { zoom: 3, minX: 2, maxX: 4, minY: 1, maxY: 3, count: 9 };
+
+const config: FetchTilesConfig = {
+  url: "http://localhost/{z}/{x}/{y}.png",
+  bbox: [0, 0, 1, 1],
+  minZoom: 3,
+  maxZoom: 3,
+  crs: "EPSG:3857",
+  totalCount: 9,
+  tileRanges: [tileRange],
+};
+
+describe("getTileIndex", () => {
+  test("follows the x/y iteration order", () => {
+    expect(getTileIndex(tileRange, 2, 1)).toBe(0);
+    expect(getTileIndex(tileRange, 2, 3)).toBe(2);
+    expect(getTileIndex(tileRange, 3, 1)).toBe(3);
+    expect(getTileIndex(tileRange, 4, 3)).toBe(8);
+  });
+});
+
+describe("markTile", () => {
+  test("merges adjacent indices into intervals", () => {
+    const checkpoint = createCheckpoint(config);
+    for (const index of [0, 2, 5, 1, 4, 3]) {
+      markTile(checkpoint, 0, index, true);
+    }
+
+    expect(checkpoint.ranges[0]?.done).toEqual([[0, 5]]);
+    expect(countDoneTiles(checkpoint)).toBe(6);
+  });
+
+  test("keeps separate intervals for gaps", () => {
+    const checkpoint = createCheckpoint(config);
+    for (const index of [8, 0, 4, 1]) {
+      markTile(checkpoint, 0, index, true);
+    }
+
+    expect(checkpoint.ranges[0]?.done).toEqual([[0, 1], [4, 4], [8, 8]]);
+    expect(isTileDone(checkpoint, 0, 4)).toBe(true);
+    expect(isTileDone(checkpoint, 0, 5)).toBe(false);
+  });
+
+  test("moves failed tiles to done once they succeed", () => {
+    const checkpoint = createCheckpoint(config);
+    for (const index of [3, 4, 5]) {
+      markTile(checkpoint, 0, index, false);
+    }
+    markTile(checkpoint, 0, 4, true);
+
+    expect(checkpoint.ranges[0]?.failed).toEqual([[3, 3], [5, 5]]);
+    expect(checkpoint.ranges[0]?.done).toEqual([[4, 4]]);
+  });
+
+  test("throws for unknown ranges", () => {
+    expect(() => markTile(createCheckpoint(config), 1, 0, true)).toThrow("not found");
+  });
+});
+
+describe("validateCheckpoint", () => {
+  test("accepts checkpoints of the same tile ranges", () => {
+    expect(() => validateCheckpoint(createCheckpoint(config), [tileRange])).not.toThrow();
+  });
+
+  test("rejects checkpoints of other tile ranges", () => {
+    expect(() =>
+      validateCheckpoint(createCheckpoint(config), [{ ...tileRange, maxX: 5 }])
+    ).toThrow("doesn't match");
+  });
+});
@@ -0,0 +1,180 @@
+import type {
+  DownloadCheckpoint,
+  FetchTilesConfig,
+  TileIndexIntervals,
+  TileRange,
+} from "./types";
+
+/**
+ * Create an empty checkpoint for the tile ranges of a config
+ */
+export function createCheckpoint(config: FetchTilesConfig): DownloadCheckpoint {
+  return {
+    version: 1,
+    ranges: config.tileRanges.map(({ zoom, minX, maxX, minY, maxY }) => ({
+      zoom,
+      minX,
+      maxX,
+      minY,
+      maxY,
+      done: [],
+      failed: [],
+    })),
+  };
+}
+
+/**
+ * Throw if the checkpoint was not created for the tile ranges of the config
+ */
+export function validateCheckpoint(
+  checkpoint: DownloadCheckpoint,
+  tileRanges: TileRange[]
+): void {
+  if (checkpoint.version !== 1) {
+    throw new Error(`Unsupported checkpoint version ${checkpoint.version}`);
+  }
+
+  const matches =
+    checkpoint.ranges.length === tileRanges.length &&
+    checkpoint.ranges.every((range, i) => {
+      const tileRange = tileRanges[i] as TileRange;
+      return (
+        range.zoom === tileRange.zoom &&
+        range.minX === tileRange.minX &&
+        range.maxX === tileRange.maxX &&
+        range.minY === tileRange.minY &&
+        range.maxY === tileRange.maxY
+      );
+    });
+
+  if (!matches) {
+    throw new Error("The checkpoint doesn't match the tile ranges of the config");
+  }
+}
+
+/**
+ * Index of a tile within its range, following the x/y iteration order of the download
+ */
+export function getTileIndex(range: TileRange, x: number, y: number): number {
+  return (x - range.minX) * (range.maxY - range.minY + 1) + (y - range.minY);
+}
+
+/**
+ * Check if a tile is recorded as done
+ */
+export function isTileDone(
+  checkpoint: DownloadCheckpoint,
+  rangeIndex: number,
+  tileIndex: number
+): boolean {
+  const range = checkpoint.ranges[rangeIndex];
+  return range ? containsIndex(range.done, tileIndex) : false;
+}
+
+/**
+ * Record the outcome of a tile. A failed tile that succeeds later is moved to done.
+ */
+export function markTile(
+  checkpoint: DownloadCheckpoint,
+  rangeIndex: number,
+  tileIndex: number,
+  ok: boolean
+): void {
+  const range = checkpoint.ranges[rangeIndex];
+  if (!range) {
+    throw new Error(`Tile range ${rangeIndex} not found in checkpoint`);
+  }
+
+  if (ok) {
+    range.failed = removeIndex(range.failed, tileIndex);
+    range.done = addIndex(range.done, tileIndex);
+  } else {
+    range.failed = addIndex(range.failed, tileIndex);
+  }
+}
+
+/**
+ * Count the tiles recorded as done, in a single range or over all ranges
+ */
+export function countDoneTiles(
+  checkpoint: DownloadCheckpoint,
+  rangeIndex?: number
+): number {
+  const ranges =
+    rangeIndex === undefined
+      ? checkpoint.ranges
+      : checkpoint.ranges.slice(rangeIndex, rangeIndex + 1);
+
+  return ranges
+    .flatMap((range) => range.done)
+    .reduce((count, [start, end]) => count + end - start + 1, 0);
+}
+
+/**
+ * Find the position of the first interval that ends at or after the index
+ */
+function findInterval(intervals: TileIndexIntervals, index: number): number {
+  let low = 0;
+  let high = intervals.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((intervals[middle] as [number, number])[1] < index) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+function containsIndex(intervals: TileIndexIntervals, index: number): boolean {
+  const interval = intervals[findInterval(intervals, index)];
+  return interval !== undefined && interval[0] <= index;
+}
+
+function addIndex(intervals: TileIndexIntervals, index: number): TileIndexIntervals {
+  if (containsIndex(intervals, index)) return intervals;
+
+  const position = findInterval(intervals, index);
+  const previous = intervals[position - 1];
+  const next = intervals[position];
+  const joinsPrevious = previous !== undefined && previous[1] === index - 1;
+  const joinsNext = next !== undefined && next[0] === index + 1;
+
+  if (joinsPrevious && joinsNext) {
+    return [
+      ...intervals.slice(0, position - 1),
+      [previous[0], next[1]],
+      ...intervals.slice(position + 1),
+    ];
+  }
+  if (joinsPrevious) {
+    return [
+      ...intervals.slice(0, position - 1),
+      [previous[0], index],
+      ...intervals.slice(position),
+    ];
+  }
+  if (joinsNext) {
+    return [
+      ...intervals.slice(0, position),
+      [index, next[1]],
+      ...intervals.slice(position + 1),
+    ];
+  }
+  return [...intervals.slice(0, position), [index, index], ...intervals.slice(position)];
+}
+
+function removeIndex(intervals: TileIndexIntervals, index: number): TileIndexIntervals {
+  if (!containsIndex(intervals, index)) return intervals;
+
+  const position = findInterval(intervals, index);
+  const [start, end] = intervals[position] as [number, number];
+  const replacement: TileIndexIntervals = [];
+  if (start < index) replacement.push([start, index - 1]);
+  if (index < end) replacement.push([index + 1, end]);
+
+  return [...intervals.slice(0, position), ...replacement, ...intervals.slice(position + 1)];
+}
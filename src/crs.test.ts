@@ -1,10 +1,22 @@
-import { describe, test, expect, beforeEach } from "bun:test";
-import { fetchCRSFromEPSG, transformExtent, getCRSExtent } from "./crs";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  fetchCRSFromEPSG,
+  transformExtent,
+  getCRSExtent,
+  getCachedCRSInfo,
+  registerCRS,
+  setCRSResolver,
+  clearCRSCache,
+  splitAtAntimeridian,
+  getBBoxCenter,
+} from "./crs";
 import type { Extent } from "./types";
 import {
   get as getProjection,
   transformExtent as olTransformExtent,
 } from "ol/proj";
+import { register } from "ol/proj/proj4";
+import proj4 from "proj4";
 
 describe("fetchCRSFromEPSG", () => {
   test("fetch expected values", async () => {
@@ -72,6 +84,41 @@ describe("transformExtent", () => {
 
     expect(bboxMercator).toStrictEqual(bboxMercatorOL as Extent);
   });
+
+  test("densified conic extent matches OL", async () => {
+    await getCRSExtent("EPSG:3035");
+    register(proj4);
+
+    const europe: Extent = [-10, 35, 30, 70];
+    const extent = transformExtent(europe, "EPSG:4326", "EPSG:3035", 10);
+    const extentOL = olTransformExtent(europe, "EPSG:4326", "EPSG:3035", 10);
+
+    expect(extent.map((num) => Number(num.toFixed(6)))).toStrictEqual(
+      extentOL.map((num) => Number(num.toFixed(6)))
+    );
+  });
+
+  test("densified extent contains the bulging edges", async () => {
+    await getCRSExtent("EPSG:3035");
+
+    const europe: Extent = [-10, 35, 30, 70];
+    const [minX, minY, maxX, maxY] = transformExtent(europe, "EPSG:4326", "EPSG:3035");
+    const corners = transformExtent(europe, "EPSG:4326", "EPSG:3035", 1);
+
+    // The southern edge curves down between the corners
+    expect(minY).toBeLessThan(corners[1] - 100000);
+    expect(minX).toBeLessThanOrEqual(corners[0]);
+    expect(maxX).toBeGreaterThanOrEqual(corners[2]);
+    expect(maxY).toBeGreaterThanOrEqual(corners[3]);
+  });
+
+  test("skips points that fail to project", () => {
+    const extent = transformExtent([-180, -90, 180, 90], "EPSG:4326", "EPSG:3857");
+
+    expect(extent.every(Number.isFinite)).toBe(true);
+    expect(extent[0]).toBeCloseTo(-20037508.342789244, 3);
+    expect(extent[2]).toBeCloseTo(20037508.342789244, 3);
+  });
 });
 
 describe("getCRSExtent", () => {
@@ -82,4 +129,130 @@ describe("getCRSExtent", () => {
     expect(extentOL).toBeDefined();
     expect(extent).toStrictEqual(extentOL);
   });
+
+  test("resolves bundled definitions offline", async () => {
+    const extent = await getCRSExtent(25832);
+
+    expect(getCachedCRSInfo("EPSG:25832")?.name).toBe("ETRS89 / UTM zone 32N");
+    expect(extent[0]).toBeLessThan(extent[2]);
+    expect(extent[1]).toBeLessThan(extent[3]);
+  });
+
+  test("resolves WGS 84 / UTM zones", async () => {
+    await getCRSExtent("EPSG:32733");
+
+    expect(getCachedCRSInfo("EPSG:32733")?.name).toBe("WGS 84 / UTM zone 33S");
+    expect(getCachedCRSInfo("EPSG:32733")?.bboxWGS84).toEqual([12, -80, 18, 0]);
+  });
+
+  test("throws for unknown CRS without resolver", async () => {
+    await expect(getCRSExtent("EPSG:31467")).rejects.toThrow("Unknown CRS EPSG:31467");
+  });
+});
+
+describe("registerCRS", () => {
+  afterEach(() => {
+    clearCRSCache();
+  });
+
+  test("registers a proj4 definition", async () => {
+    registerCRS("EPSG:31467", {
+      name: "DHDN / 3-degree Gauss-Kruger zone 3",
+      definition:
+        "+proj=tmerc +lat_0=0 +lon_0=9 +k=1 +x_0=3500000 +y_0=0 +ellps=bessel +towgs84=598.1,73.7,418.2,0.202,0.045,-2.455,6.7 +units=m +no_defs +type=crs",
+      bboxWGS84: [7.5, 47.27, 10.5, 55.09],
+    });
+
+    const [minX, minY, maxX, maxY] = await getCRSExtent(31467);
+    const [x, y] = transformExtent([9, 50, 9, 50], "EPSG:4326", "EPSG:31467");
+
+    // The central meridian maps to the false easting, apart from the datum shift
+    expect(Math.abs(x - 3500000)).toBeLessThan(200);
+    expect(x).toBeWithin(minX, maxX);
+    expect(y).toBeWithin(minY, maxY);
+  });
+
+  test("registers a WKT definition with its extent", async () => {
+    const extent: Extent = [2426378, 1528101, 6293974, 5446513];
+    registerCRS(3035, {
+      name: "ETRS89-extended / LAEA Europe",
+      definition:
+        'PROJCS["ETRS89-extended / LAEA Europe",GEOGCS["ETRS89",DATUM["European_Terrestrial_Reference_System_1989",SPHEROID["GRS 1980",6378137,298.257222101],TOWGS84[0,0,0,0,0,0,0]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Lambert_Azimuthal_Equal_Area"],PARAMETER["latitude_of_center",52],PARAMETER["longitude_of_center",10],PARAMETER["false_easting",4321000],PARAMETER["false_northing",3210000],UNIT["metre",1],AUTHORITY["EPSG","3035"]]',
+      bboxWGS84: [-16.1, 32.88, 40.18, 84.73],
+      extent,
+    });
+
+    expect(await getCRSExtent("EPSG:3035")).toEqual(extent);
+
+    const center = transformExtent([10, 52, 10, 52], "EPSG:4326", "EPSG:3035");
+    expect(center.map(Math.round)).toEqual([4321000, 3210000, 4321000, 3210000]);
+  });
+
+  test("forgets registered definitions with the cache", async () => {
+    registerCRS("EPSG:31467", {
+      name: "DHDN / 3-degree Gauss-Kruger zone 3",
+      definition: "+proj=tmerc +lat_0=0 +lon_0=9 +k=1 +x_0=3500000 +y_0=0 +ellps=bessel +units=m +no_defs",
+      bboxWGS84: [7.5, 47.27, 10.5, 55.09],
+    });
+    clearCRSCache();
+
+    await expect(getCRSExtent("EPSG:31467")).rejects.toThrow("Unknown CRS EPSG:31467");
+  });
+});
+
+describe("setCRSResolver", () => {
+  afterEach(() => {
+    setCRSResolver(undefined);
+    clearCRSCache();
+  });
+
+  test("falls back to the resolver for unknown CRS", async () => {
+    const requestedCodes: string[] = [];
+    setCRSResolver(async (code) => {
+      requestedCodes.push(code);
+      return {
+        name: "DHDN / 3-degree Gauss-Kruger zone 4",
+        definition:
+          "+proj=tmerc +lat_0=0 +lon_0=12 +k=1 +x_0=4500000 +y_0=0 +ellps=bessel +towgs84=598.1,73.7,418.2,0.202,0.045,-2.455,6.7 +units=m +no_defs +type=crs",
+        bboxWGS84: [10.5, 47.27, 13.5, 55.09],
+      };
+    });
+
+    await getCRSExtent("EPSG:31468");
+    await getCRSExtent("EPSG:3857");
+
+    expect(requestedCodes).toEqual(["EPSG:31468"]);
+    expect(getCachedCRSInfo(31468)?.name).toBe("DHDN / 3-degree Gauss-Kruger zone 4");
+  });
+
+  test("throws if the resolver doesn't know the CRS", async () => {
+    setCRSResolver(async () => undefined);
+
+    await expect(getCRSExtent("EPSG:31469")).rejects.toThrow("Unknown CRS EPSG:31469");
+  });
+});
+
+describe("splitAtAntimeridian", () => {
+  test("splits a bbox crossing the antimeridian", () => {
+    expect(splitAtAntimeridian([170, -20, -170, 20])).toEqual([
+      [170, -20, 180, 20],
+      [-180, -20, -170, 20],
+    ]);
+  });
+
+  test("keeps other bboxes", () => {
+    expect(splitAtAntimeridian([13.3, 52.5, 13.4, 52.55])).toEqual([[13.3, 52.5, 13.4, 52.55]]);
+  });
+});
+
+describe("getBBoxCenter", () => {
+  test("wraps around the antimeridian", () => {
+    expect(getBBoxCenter([170, -20, -170, 20])).toEqual([180, 0]);
+    expect(getBBoxCenter([160, -20, -170, 20])).toEqual([175, 0]);
+    expect(getBBoxCenter([170, -20, -160, 20])).toEqual([-175, 0]);
+  });
+
+  test("averages other bboxes", () => {
+    expect(getBBoxCenter([10, 50, 20, 54])).toEqual([15, 52]);
+  });
 });
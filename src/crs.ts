@@ -1,13 +1,23 @@
 import proj4 from "proj4";
-import type { Extent, EPSGInfo, CRSCacheEntry } from './types';
-
-const OlExtentEPSG3857: Extent = [ -20037508.342789244, -20037508.342789244, 20037508.342789244, 20037508.342789244 ]
+import type { ProjectionDefinition } from "proj4";
+import { BUNDLED_CRS_DEFINITIONS, getUTMDefinition } from "./projections";
+import type { Extent, EPSGInfo, CRSCacheEntry, CRSDefinition, CRSResolver } from './types';
 
 /**
  * In-memory cache for CRS definitions and extents
  */
 const crsCache = new Map<string, CRSCacheEntry>();
 
+/**
+ * CRS definitions registered with `registerCRS`
+ */
+const customCRS = new Map<string, CRSDefinition>();
+
+/**
+ * Fallback for CRS that are neither bundled nor registered
+ */
+let crsResolver: CRSResolver | undefined;
+
 /**
  * Normalize EPSG code to standard format "EPSG:XXXX"
  */
@@ -83,30 +93,67 @@ export async function fetchCRSFromEPSG(
 }
 
 /**
- * Transform extent from one CRS to another using 4-corner sampling
+ * Evenly spaced points along an edge, from its start up to (without) its end
+ *
+ * @param segments - Number of parts the edge is divided into
+ */
+export function densifyEdge(
+  start: [number, number],
+  end: [number, number],
+  segments: number
+): [number, number][] {
+  return Array.from({ length: segments }, (_, i) => [
+    start[0] + ((end[0] - start[0]) * i) / segments,
+    start[1] + ((end[1] - start[1]) * i) / segments,
+  ]);
+}
+
+/**
+ * Transform extent from one CRS to another
+ *
+ * Every side is sampled at evenly spaced points, since the transformed edges
+ * of conic or polar projections and of large areas bulge beyond the corners.
+ * Points that fail to project are skipped.
+ *
+ * @param samples - Points per side, starting at a corner, 1 transforms only the corners (default: 21)
  */
 export function transformExtent(
   extent: Extent,
   sourceCRS: string,
-  targetCRS: string
+  targetCRS: string,
+  samples: number = 21
 ): Extent {
   const [minX, minY, maxX, maxY] = extent;
-
-  // Transform all 4 corners
-  const corners = [
+  const stops = Math.max(1, Math.floor(samples));
+  const corners: [number, number][] = [
     [minX, minY],
     [maxX, minY],
     [maxX, maxY],
     [minX, maxY],
   ];
 
-  const transformedCorners = corners.map((corner) =>
-    proj4(sourceCRS, targetCRS, corner)
+  // Walk around the extent
+  const points = corners.flatMap((corner, i) =>
+    densifyEdge(corner, corners[(i + 1) % corners.length] as [number, number], stops)
   );
 
-  // Find bounding box of transformed corners
-  const xs = transformedCorners.map((c) => c[0]).filter((x): x is number => x !== undefined);
-  const ys = transformedCorners.map((c) => c[1]).filter((y): y is number => y !== undefined);
+  const converter = proj4(sourceCRS, targetCRS);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const point of points) {
+    let transformed: number[];
+    try {
+      transformed = converter.forward(point);
+    } catch {
+      continue;
+    }
+
+    const [x, y] = transformed;
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      xs.push(x as number);
+      ys.push(y as number);
+    }
+  }
 
   if (xs.length === 0 || ys.length === 0) {
     throw new Error("Failed to transform extent: no valid coordinates");
@@ -116,43 +163,122 @@ export function transformExtent(
 }
 
 /**
- * Get the valid extent for a CRS by fetching from epsg.io
+ * Resolver that looks up CRS definitions on epsg.io, see `setCRSResolver`
+ */
+export const epsgIOResolver: CRSResolver = async (code) => {
+  const { proj4String, bboxWGS84, name } = await fetchCRSFromEPSG(code);
+  return { name, definition: proj4String, bboxWGS84 };
+};
+
+/**
+ * Register a CRS definition, replacing a bundled or previously registered one
+ *
+ * @param crs - EPSG code (e.g., "EPSG:31467", "31467", or 31467)
+ * @param definition - proj4 string or WKT, with the area of use in WGS84
+ */
+export function registerCRS(crs: string | number, definition: CRSDefinition): void {
+  const normalized = normalizeEPSGCode(crs);
+
+  proj4.defs(normalized, definition.definition);
+  customCRS.set(normalized, definition);
+  crsCache.delete(normalized);
+}
+
+/**
+ * Set the resolver for CRS that are neither bundled nor registered.
+ * There is none by default, pass `epsgIOResolver` to look them up on epsg.io.
+ */
+export function setCRSResolver(resolver: CRSResolver | undefined): void {
+  crsResolver = resolver;
+}
+
+/**
+ * Look up a CRS definition: registered, bundled, then the resolver
+ */
+async function resolveCRS(normalized: string): Promise<CRSDefinition> {
+  const definition =
+    customCRS.get(normalized) ??
+    BUNDLED_CRS_DEFINITIONS[normalized] ??
+    getUTMDefinition(Number(getNumericCode(normalized))) ??
+    (await crsResolver?.(normalized));
+
+  if (!definition) {
+    throw new Error(
+      `Unknown CRS ${normalized}, register it with registerCRS or set a resolver with setCRSResolver`
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Get the definition, area of use and valid extent of a CRS from the registered
+ * and bundled definitions, falling back to the resolver set with `setCRSResolver`.
  * Results are cached for subsequent calls.
  *
  * @param crs - EPSG code (e.g., "EPSG:3857", "3857", or 3857)
- * @returns Promise resolving to extent in the target CRS coordinate system
  */
-export async function getCRSExtent(crs: string | number): Promise<Extent> {
+export async function getCRSInfo(crs: string | number): Promise<CRSCacheEntry> {
   const normalized = normalizeEPSGCode(crs);
 
   // Check cache first
-  if (crsCache.has(normalized)) {
-    return crsCache.get(normalized)!.extent;
+  const cached = crsCache.get(normalized);
+  if (cached) {
+    return cached;
   }
 
-  // Fetch from epsg.io
-  const { proj4String, bboxWGS84, name } = await fetchCRSFromEPSG(normalized);
+  const { definition, bboxWGS84, name, extent: definedExtent } = await resolveCRS(normalized);
 
   // Register with proj4 if not already registered
   if (!proj4.defs(normalized)) {
-    proj4.defs(normalized, proj4String);
+    proj4.defs(normalized, definition);
   }
 
   // Transform bbox from WGS84 to target CRS
-  let extent: Extent;
-  // Ensure consistency compared to Openlayers
-  if (normalized === "EPSG:3857") {
-    extent = OlExtentEPSG3857;
-  } else {
-    extent = transformExtent(bboxWGS84, "EPSG:4326", normalized);
-  }
+  const extent = definedExtent ?? transformExtent(bboxWGS84, "EPSG:4326", normalized);
 
   // Cache for future use
-  crsCache.set(normalized, { proj4String, bboxWGS84, extent, name });
+  const entry: CRSCacheEntry = { definition, bboxWGS84, extent, name };
+  crsCache.set(normalized, entry);
+
+  return entry;
+}
 
+/**
+ * Get the valid extent for a CRS, see `getCRSInfo`
+ *
+ * @param crs - EPSG code (e.g., "EPSG:3857", "3857", or 3857)
+ * @returns Promise resolving to extent in the target CRS coordinate system
+ */
+export async function getCRSExtent(crs: string | number): Promise<Extent> {
+  const { extent } = await getCRSInfo(crs);
   return extent;
 }
 
+/**
+ * Check if a CRS has geographic coordinates in degrees.
+ * The CRS must be known to proj4, e.g. after `getCRSInfo`.
+ */
+export function isGeographicCRS(crs: string): boolean {
+  const definition = proj4.defs(normalizeEPSGCode(crs)) as ProjectionDefinition | undefined;
+  return definition?.projName === "longlat" || definition?.units === "degrees";
+}
+
+/**
+ * Length of a unit of a CRS in meters, e.g. to convert scale denominators to resolutions.
+ * The CRS must be known to proj4, e.g. after `getCRSInfo`.
+ */
+export function getMetersPerUnit(crs: string): number {
+  const definition = proj4.defs(normalizeEPSGCode(crs)) as ProjectionDefinition | undefined;
+
+  if (definition?.to_meter) {
+    return definition.to_meter;
+  }
+
+  // Degree at the equator of the WGS84 ellipsoid
+  return isGeographicCRS(crs) ? (2 * Math.PI * 6378137) / 360 : 1;
+}
+
 /**
  * Check if one extent contains another
  */
@@ -165,6 +291,35 @@ export function containsExtent(extent1: Extent, extent2: Extent): boolean {
   );
 }
 
+/**
+ * Split a WGS84 bbox that crosses the antimeridian (west > east) into its
+ * eastern and western part. Other bboxes are returned unchanged.
+ */
+export function splitAtAntimeridian(bbox: Extent): Extent[] {
+  const [west, south, east, north] = bbox;
+
+  if (west <= east) {
+    return [bbox];
+  }
+
+  return [
+    [west, south, 180, north],
+    [-180, south, east, north],
+  ];
+}
+
+/**
+ * Longitude and latitude of the center of a WGS84 bbox. The longitude wraps
+ * around for bboxes that cross the antimeridian (west > east).
+ */
+export function getBBoxCenter(bbox: Extent): [number, number] {
+  const [west, south, east, north] = bbox;
+  const width = west <= east ? east - west : east - west + 360;
+  const lon = west + width / 2;
+
+  return [lon > 180 ? lon - 360 : lon, (south + north) / 2];
+}
+
 /**
  * Preload common CRS definitions for better performance
  * Call this during application initialization
@@ -184,8 +339,9 @@ export function getCachedCRSInfo(crs: string | number): CRSCacheEntry | undefine
 }
 
 /**
- * Clear CRS cache (useful for testing)
+ * Clear CRS cache and the registered CRS definitions (useful for testing)
  */
 export function clearCRSCache(): void {
   crsCache.clear();
+  customCRS.clear();
 }
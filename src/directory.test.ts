@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { writeTileDirectory, type TileDirectoryManifest } from "./directory";
+import { createXYZTileGrid } from "./tilegrid";
+import type { FetchTilesConfig } from "./types";
+import { fakePNG, startMockServer } from "./test-utils";
+
+const requestedPaths: string[] = [];
+
+const TEST_PORT = startMockServer((req) => {
+  const path = new URL(req.url).pathname;
+  requestedPaths.push(path);
+  return new Response(fakePNG(path), { headers: { "Content-Type": "image/png" } });
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "tiles-"));
+  requestedPaths.length = 0;
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const config: FetchTilesConfig = {
+  url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+  bbox: [13.3, 52.5, 13.4, 52.55],
+  minZoom: 11,
+  maxZoom: 11,
+  crs: "EPSG:3857",
+  totalCount: 4,
+  tileRanges: [{ zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 672, count: 4 }],
+};
+
+describe("writeTileDirectory", () => {
+  test("writes tiles as {z}/{x}/{y}.{ext}", async () => {
+    const summary = await writeTileDirectory(directory, config);
+
+    expect(summary).toEqual({ written: 4, skipped: 0 });
+    expect((await readdir(join(directory, "11"))).sort()).toEqual(["1099", "1100"]);
+    expect((await readdir(join(directory, "11", "1099"))).sort()).toEqual(["671.png", "672.png"]);
+    expect(new Uint8Array(await readFile(join(directory, "11", "1100", "672.png")))).toEqual(
+      fakePNG("/11/1100/672.png")
+    );
+  });
+
+  test("writes TMS rows", async () => {
+    await writeTileDirectory(directory, config, { scheme: "tms" });
+
+    const tmsRow = 2 ** 11 - 1 - 671;
+    expect(new Uint8Array(await readFile(join(directory, "11", "1099", `${tmsRow}.png`)))).toEqual(
+      fakePNG("/11/1099/671.png")
+    );
+  });
+
+  test("writes TMS rows of custom grids", async () => {
+    // Three times as many rows as an XYZ grid
+    const grid = {
+      ...createXYZTileGrid([-180, -90, 180, 90], 0, 11),
+      sizes: Array.from({ length: 12 }, (_, zoom): [number, number] => [2 ** zoom, 3 * 2 ** zoom]),
+    };
+
+    await writeTileDirectory(directory, { ...config, grid }, { scheme: "tms" });
+    expect(await readdir(join(directory, "11", "1099"))).toContain(`${3 * 2 ** 11 - 1 - 671}.png`);
+
+    // Tiles on disk are found with the same rows
+    requestedPaths.length = 0;
+    const summary = await writeTileDirectory(directory, { ...config, grid }, { scheme: "tms" });
+    expect(summary).toEqual({ written: 0, skipped: 4 });
+    expect(requestedPaths).toEqual([]);
+  });
+
+  test("writes a manifest", async () => {
+    await writeTileDirectory(directory, config);
+
+    const manifest: TileDirectoryManifest = JSON.parse(
+      await readFile(join(directory, "manifest.json"), "utf-8")
+    );
+    expect(manifest.url).toBe(config.url);
+    expect(manifest.bbox).toEqual(config.bbox);
+    expect(manifest.minZoom).toBe(11);
+    expect(manifest.maxZoom).toBe(11);
+    expect(manifest.crs).toBe("EPSG:3857");
+    expect(manifest.scheme).toBe("xyz");
+    expect(manifest.format).toBe("png");
+    expect(manifest.tileRanges).toEqual(config.tileRanges);
+  });
+
+  test("skips tiles that exist on disk", async () => {
+    await mkdir(join(directory, "11", "1099"), { recursive: true });
+    await writeFile(join(directory, "11", "1099", "671.png"), "cached");
+
+    const summary = await writeTileDirectory(directory, config);
+
+    expect(summary).toEqual({ written: 3, skipped: 1 });
+    expect(requestedPaths).not.toContain("/11/1099/671.png");
+    expect(await readFile(join(directory, "11", "1099", "671.png"), "utf-8")).toBe("cached");
+
+    // Everything is cached now
+    expect(await writeTileDirectory(directory, config)).toEqual({ written: 0, skipped: 4 });
+  });
+
+  test("refuses to mix schemes", async () => {
+    await writeTileDirectory(directory, config);
+
+    await expect(writeTileDirectory(directory, config, { scheme: "tms" })).rejects.toThrow(
+      "uses the xyz scheme"
+    );
+  });
+});
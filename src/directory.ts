@@ -0,0 +1,143 @@
+import { countDoneTiles, createCheckpoint, getTileIndex, markTile } from "./checkpoint";
+import { getTileMatrixSize } from "./tilegrid";
+import { fetchTiles } from "./tiles";
+import { getTileFormat } from "./utils";
+import type {
+  FetchTilesConfig,
+  FetchTilesOptions,
+  TileRange,
+} from "./types";
+
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+export interface TileDirectoryOptions {
+  /** Row numbering of the file layout, "tms" writes `{z}/{x}/{-y}` (default: "xyz") */
+  scheme?: "xyz" | "tms";
+  /** Options passed to `fetchTiles` */
+  fetchOptions?: Omit<FetchTilesOptions, "checkpoint">;
+}
+
+/**
+ * Description of a tile directory, written as `manifest.json`
+ */
+export interface TileDirectoryManifest {
+  url?: string;
+  subdomains?: string[];
+  bbox: FetchTilesConfig["bbox"];
+  minZoom: number;
+  maxZoom: number;
+  crs: string;
+  scheme: "xyz" | "tms";
+  /** File extension of the tiles, taken from the MIME type of the first tile */
+  format?: string;
+  totalCount: number;
+  tileRanges: TileRange[];
+}
+
+export interface TileDirectorySummary {
+  /** Tiles downloaded and written in this run */
+  written: number;
+  /** Tiles that already existed on disk */
+  skipped: number;
+}
+
+/**
+ * Row of a tile in the file layout
+ */
+function getFileRow(y: number, z: number, config: FetchTilesConfig, scheme: "xyz" | "tms"): number {
+  if (scheme === "xyz") return y;
+  // TMS has origin at bottom-left, inverted with the rows of the grid, 2^z for XYZ grids
+  const matrixHeight = config.grid ? getTileMatrixSize(config.grid, z)[1] : Math.pow(2, z);
+  return matrixHeight - 1 - y;
+}
+
+/**
+ * Download the tiles of a config into a `{z}/{x}/{y}.{ext}` directory
+ *
+ * The extension is taken from the MIME type of the tiles. A `manifest.json`
+ * describes the source and the tile ranges. Tiles that already exist on disk
+ * are skipped, so running it again only downloads the missing tiles.
+ *
+ * Uses `node:fs`, so it runs under Bun and Node but not in the browser.
+ *
+ * @param directory - Target directory, created if it doesn't exist
+ * @param config - Config of the tiles to download
+ */
+export async function writeTileDirectory(
+  directory: string,
+  config: FetchTilesConfig,
+  options: TileDirectoryOptions = {}
+): Promise<TileDirectorySummary> {
+  // Imported on demand to keep the browser build free of Node modules
+  const { mkdir, readdir, readFile, writeFile } = await import("node:fs/promises");
+  const { scheme = "xyz", fetchOptions } = options;
+  const root = directory.replace(/\/+$/, "");
+  const manifestPath = `${root}/${MANIFEST_FILE_NAME}`;
+
+  const previousManifest: TileDirectoryManifest | undefined = await readFile(
+    manifestPath,
+    "utf-8"
+  )
+    .then((content) => JSON.parse(content))
+    .catch(() => undefined);
+
+  if (previousManifest && previousManifest.scheme !== scheme) {
+    throw new Error(
+      `${root} uses the ${previousManifest.scheme} scheme, cannot add tiles with the ${scheme} scheme`
+    );
+  }
+
+  const manifest: TileDirectoryManifest = {
+    url: config.url,
+    subdomains: config.subdomains,
+    bbox: config.bbox,
+    minZoom: config.minZoom,
+    maxZoom: config.maxZoom,
+    crs: config.crs,
+    scheme,
+    format: previousManifest?.format,
+    totalCount: config.totalCount,
+    tileRanges: config.tileRanges,
+  };
+
+  // Record the tiles that exist on disk as done, so fetchTiles skips them
+  const checkpoint = createCheckpoint(config);
+  for (const [rangeIndex, range] of config.tileRanges.entries()) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      const fileNames = await readdir(`${root}/${range.zoom}/${x}`).catch(() => []);
+      for (const fileName of fileNames) {
+        const match = fileName.match(/^(\d+)\.(\w+)$/);
+        if (!match || (manifest.format && match[2] !== manifest.format)) continue;
+
+        const y = getFileRow(Number(match[1]), range.zoom, config, scheme);
+        if (y < range.minY || y > range.maxY) continue;
+
+        markTile(checkpoint, rangeIndex, getTileIndex(range, x, y), true);
+      }
+    }
+  }
+
+  const skipped = countDoneTiles(checkpoint);
+
+  await mkdir(root, { recursive: true });
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+
+  let written = 0;
+  for await (const tile of fetchTiles(config, { ...fetchOptions, checkpoint })) {
+    const extension = getTileFormat(tile.blob.type) ?? "bin";
+    if (!manifest.format) {
+      manifest.format = extension;
+      await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    }
+
+    const tileDirectory = `${root}/${tile.z}/${tile.x}`;
+    await mkdir(tileDirectory, { recursive: true });
+    await writeFile(
+      `${tileDirectory}/${getFileRow(tile.y, tile.z, config, scheme)}.${extension}`,
+      new Uint8Array(await tile.blob.arrayBuffer())
+    );
+    written++;
+  }
+
+  return { written, skipped };
+}
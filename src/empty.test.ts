@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import { isEmptyTile } from "./empty";
+import { fetchTile, fetchTileResults } from "./tiles";
+import { createCheckpoint, countDoneTiles } from "./checkpoint";
+import { hashTileData } from "./utils";
+import type { FetchedTile, FetchSummary, FetchTilesConfig } from "./types";
+import { startMockServer } from "./test-utils";
+
+let blankPNG: Uint8Array<ArrayBuffer>;
+let detailedPNG: Uint8Array<ArrayBuffer>;
+
+/**
+ * PNG of 2x1 pixels of the gray levels, the CRCs are not checked
+ */
+async function encodeGrayPNG(levels: [number, number]): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([new Uint8Array([0, ...levels])])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  const data = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  const chunk = (type: string, content: number[] | Uint8Array) => {
+    const bytes = new Uint8Array(12 + content.length);
+    new DataView(bytes.buffer).setUint32(0, content.length);
+    bytes.set([...type].map((char) => char.charCodeAt(0)), 4);
+    bytes.set(content, 8);
+    return bytes;
+  };
+
+  const blob = new Blob([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", [0, 0, 0, 2, 0, 0, 0, 1, 8, 0, 0, 0, 0]),
+    chunk("IDAT", data),
+    chunk("IEND", []),
+  ]);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+const TEST_PORT = startMockServer((req) => {
+  // The column selects the kind of tile
+  const x = Number(new URL(req.url).pathname.split("/")[2]);
+  const headers = { "Content-Type": "image/png" };
+
+  switch (x) {
+    case 0:
+      return new Response(null, { status: 204 });
+    case 1:
+    case 3:
+      return new Response(blankPNG, { headers });
+    case 4:
+      return new Response("", { headers });
+    default:
+      return new Response(detailedPNG, { headers });
+  }
+});
+
+beforeAll(async () => {
+  blankPNG = await encodeGrayPNG([200, 200]);
+  detailedPNG = await encodeGrayPNG([200, 100]);
+});
+
+const getTile = (x: number) => ({
+  url: `http://localhost:${TEST_PORT}/1/${x}/0.png`,
+  x,
+  y: 0,
+  z: 1,
+});
+
+const config: FetchTilesConfig = {
+  url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+  bbox: [-180, -85, 180, 85],
+  minZoom: 3,
+  maxZoom: 3,
+  crs: "EPSG:3857",
+  totalCount: 5,
+  tileRanges: [{ zoom: 3, minX: 0, maxX: 4, minY: 0, maxY: 0, count: 5 }],
+};
+
+describe("isEmptyTile", () => {
+  test("detects known blank tiles by their hash", async () => {
+    const blob = new Blob(["ocean"]);
+    const hashes = [await hashTileData(new TextEncoder().encode("ocean"))];
+
+    expect(await isEmptyTile(blob, { hashes })).toBe(true);
+    expect(await isEmptyTile(blob)).toBe(false);
+    expect(await isEmptyTile(new Blob([]))).toBe(true);
+  });
+
+  test("decodes PNG tiles unless disabled", async () => {
+    expect(await isEmptyTile(new Blob([blankPNG]))).toBe(true);
+    expect(await isEmptyTile(new Blob([blankPNG]), { decode: false })).toBe(false);
+  });
+});
+
+describe("fetchTile with emptyTiles", () => {
+  test("marks empty tiles", async () => {
+    const options = { emptyTiles: {}, retry: { maxAttempts: 1 } };
+
+    expect((await fetchTile(getTile(0), options)).empty).toBe(true);
+    expect((await fetchTile(getTile(1), options)).empty).toBe(true);
+    expect((await fetchTile(getTile(4), options)).empty).toBe(true);
+    expect((await fetchTile(getTile(2), options)).empty).toBeUndefined();
+  });
+
+  test("keeps failing for 204 without empty tile detection", async () => {
+    await expect(fetchTile(getTile(0), { retry: { maxAttempts: 1 } })).rejects.toThrow(
+      "Response has no content type"
+    );
+  });
+});
+
+describe("fetchTileResults with emptyTiles", () => {
+  test("skips empty tiles and counts them", async () => {
+    const checkpoint = createCheckpoint(config);
+    const tiles: FetchedTile[] = [];
+    let summary: FetchSummary | undefined;
+
+    for await (const result of fetchTileResults(config, {
+      emptyTiles: {},
+      checkpoint,
+      onComplete: (s) => (summary = s),
+    })) {
+      if (result.ok) tiles.push(result.tile);
+    }
+
+    expect(tiles.map(({ x }) => x)).toEqual([2]);
+    expect(summary).toMatchObject({ succeeded: 1, skipped: 4, failed: [] });
+    expect(countDoneTiles(checkpoint)).toBe(5);
+  });
+
+  test("refers to the first empty tile with the same data", async () => {
+    const tiles: FetchedTile[] = [];
+    let summary: FetchSummary | undefined;
+
+    for await (const result of fetchTileResults(config, {
+      emptyTiles: { action: "reference" },
+      maxParallelDownloads: 1,
+      onComplete: (s) => (summary = s),
+    })) {
+      if (result.ok) tiles.push(result.tile);
+    }
+
+    expect(tiles.map(({ x }) => x)).toEqual([1, 2, 3]);
+    const [first, , copy] = tiles;
+    expect(first?.empty).toBe(true);
+    expect(first?.reference).toBeUndefined();
+    expect(copy?.reference).toEqual({ z: 3, x: 1, y: 0 });
+    expect(copy?.blob).toBe(first?.blob as Blob);
+    // The tiles without data are dropped
+    expect(summary).toMatchObject({ succeeded: 3, skipped: 2 });
+  });
+});
@@ -0,0 +1,18 @@
+import { isBlankPNG, isPNG } from "./png";
+import { hashTileData } from "./utils";
+import type { EmptyTileOptions } from "./types";
+
+/**
+ * Whether the tile data is empty: no data, one of the known blank tiles, or a
+ * fully transparent or single-color PNG
+ */
+export async function isEmptyTile(blob: Blob, options: EmptyTileOptions = {}): Promise<boolean> {
+  const { hashes, decode = true } = options;
+  if (blob.size === 0) return true;
+
+  const data = new Uint8Array(await blob.arrayBuffer());
+  if (hashes?.length && hashes.includes(await hashTileData(data))) return true;
+
+  // Detected by the signature, servers don't always send the right type
+  return decode && isPNG(data) && (await isBlankPNG(data));
+}
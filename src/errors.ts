@@ -0,0 +1,88 @@
+import type { UnfetchedTile } from "./types";
+
+/**
+ * Error raised when a single tile could not be downloaded
+ */
+export class TileFetchError extends Error {
+  override readonly name: string = "TileFetchError";
+  /** The tile that failed */
+  readonly tile: UnfetchedTile;
+  /** HTTP status of the last response, undefined for network errors */
+  readonly status?: number;
+  /** Number of requests made before giving up */
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    details: {
+      tile: UnfetchedTile;
+      status?: number;
+      attempts: number;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause: details.cause });
+    this.tile = details.tile;
+    this.status = details.status;
+    this.attempts = details.attempts;
+  }
+}
+
+export type TileValidationReason = "content-type" | "format" | "truncated" | "dimensions" | "custom";
+
+/**
+ * Error raised when the response of a tile is not valid tile data, see `TileValidationOptions`
+ */
+export class TileValidationError extends TileFetchError {
+  override readonly name = "TileValidationError";
+  /** The check that failed */
+  readonly reason: TileValidationReason;
+
+  constructor(
+    message: string,
+    details: {
+      tile: UnfetchedTile;
+      status?: number;
+      attempts: number;
+      reason: TileValidationReason;
+    }
+  ) {
+    super(message, details);
+    this.reason = details.reason;
+  }
+}
+
+/**
+ * Error raised when a download has more tiles from a host than its `maxTiles` allows
+ */
+export class TileLimitError extends Error {
+  override readonly name = "TileLimitError";
+  /** Host rule of the limit, see `RateLimiter` */
+  readonly host: string;
+  /** Tiles of the download from the host */
+  readonly tiles: number;
+  readonly maxTiles: number;
+
+  constructor(message: string, details: { host: string; tiles: number; maxTiles: number }) {
+    super(message);
+    this.host = details.host;
+    this.tiles = details.tiles;
+    this.maxTiles = details.maxTiles;
+  }
+}
+
+/**
+ * Error raised when a download exceeds its byte budget, or is estimated to exceed it
+ */
+export class ByteBudgetError extends Error {
+  override readonly name = "ByteBudgetError";
+  /** Downloaded or estimated bytes */
+  readonly bytes: number;
+  readonly maxBytes: number;
+
+  constructor(message: string, details: { bytes: number; maxBytes: number }) {
+    super(message);
+    this.bytes = details.bytes;
+    this.maxBytes = details.maxBytes;
+  }
+}
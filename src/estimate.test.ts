@@ -0,0 +1,153 @@
+import { describe, test, expect } from "bun:test";
+import { estimateDownload, formatEstimate } from "./estimate";
+import { ByteBudgetError } from "./errors";
+import { fetchTileResults } from "./tiles";
+import { hashTileData } from "./utils";
+import type { FetchTilesConfig } from "./types";
+import { fakePNG, startMockServer } from "./test-utils";
+
+// Path of every request, in order
+const requests: string[] = [];
+
+const TEST_PORT = startMockServer((req) => {
+  const path = new URL(req.url).pathname;
+  const [z, x] = path.slice(1).split("/").map(Number) as [number, number];
+  requests.push(path);
+
+  if (z === 3) {
+    return new Response("Not found", { status: 404 });
+  }
+  // 100 bytes per tile at zoom 1, at zoom 2 100 bytes more for every column
+  const size = z === 1 ? 100 : 100 * (x + 1);
+  // The PNG framing adds 20 bytes
+  return new Response(fakePNG("a".repeat(size - 20)), { headers: { "Content-Type": "image/png" } });
+});
+
+const config: FetchTilesConfig = {
+  url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+  bbox: [-180, -85, 180, 85],
+  minZoom: 1,
+  maxZoom: 2,
+  crs: "EPSG:3857",
+  totalCount: 20,
+  tileRanges: [
+    { zoom: 1, minX: 0, maxX: 1, minY: 0, maxY: 1, count: 4 },
+    { zoom: 2, minX: 0, maxX: 1, minY: 0, maxY: 3, count: 8 },
+    { zoom: 2, minX: 2, maxX: 3, minY: 0, maxY: 3, count: 8 },
+  ],
+};
+
+describe("estimateDownload", () => {
+  test("extrapolates the sample of every zoom level", async () => {
+    requests.length = 0;
+    const estimate = await estimateDownload(config, { samplesPerZoom: 3 });
+
+    expect(estimate.totalCount).toBe(20);
+    expect(estimate.sampleCount).toBe(6);
+    expect(estimate.failedSamples).toBe(0);
+    expect(requests).toHaveLength(6);
+    expect(new Set(requests).size).toBe(6);
+
+    const [zoom1, zoom2] = estimate.zooms;
+    // All tiles of zoom 1 have the same size
+    expect(zoom1).toEqual({
+      zoom: 1,
+      count: 4,
+      sampleCount: 3,
+      bytes: { value: 400, low: 400, high: 400 },
+    });
+    expect(zoom2?.count).toBe(16);
+    expect(zoom2?.sampleCount).toBe(3);
+    expect(zoom2?.bytes.low).toBeLessThanOrEqual(zoom2?.bytes.value ?? 0);
+    expect(zoom2?.bytes.high).toBeGreaterThanOrEqual(zoom2?.bytes.value ?? 0);
+    expect(estimate.bytes.value).toBe(400 + (zoom2?.bytes.value ?? 0));
+    expect(estimate.duration.low).toBeLessThanOrEqual(estimate.duration.value);
+    expect(estimate.duration.high).toBeGreaterThanOrEqual(estimate.duration.value);
+  });
+
+  test("is exact for zoom levels that are sampled completely", async () => {
+    const estimate = await estimateDownload(config, { samplesPerZoom: 16 });
+
+    // Zoom 2 has 4 tiles of 100, 200, 300 and 400 bytes
+    expect(estimate.bytes).toEqual({ value: 4400, low: 4400, high: 4400 });
+    expect(formatEstimate(estimate)).toMatch(
+      /^20 tiles, 4.30 KB \(4.30 KB - 4.30 KB\), \d+s \(\d+s - \d+s\)$/
+    );
+  });
+
+  test("picks tiles from all tile ranges of a zoom level", async () => {
+    requests.length = 0;
+    let call = 0;
+    // First and last tile of zoom 1, then first and last tile of zoom 2
+    const random = () => [0, 0.99][call++ % 2] as number;
+    await estimateDownload(config, { samplesPerZoom: 2, random });
+
+    expect(requests).toEqual(["/1/0/0.png", "/1/1/1.png", "/2/0/0.png", "/2/3/3.png"]);
+  });
+
+  test("counts failed samples with 0 bytes", async () => {
+    const estimate = await estimateDownload(
+      { ...config, tileRanges: [{ zoom: 3, minX: 0, maxX: 1, minY: 0, maxY: 0, count: 2 }] },
+      { retry: { maxAttempts: 1 } }
+    );
+
+    expect(estimate.failedSamples).toBe(2);
+    expect(estimate.bytes.value).toBe(0);
+  });
+
+  test("counts empty samples with 0 bytes", async () => {
+    // The tiles of 100 bytes are empty, all of zoom 1 and the first column of zoom 2
+    const estimate = await estimateDownload(config, {
+      samplesPerZoom: 16,
+      emptyTiles: { hashes: [await hashTileData(fakePNG("a".repeat(80)))], decode: false },
+    });
+
+    expect(estimate.sampleCount).toBe(20);
+    expect(estimate.skippedSamples).toBe(8);
+    expect(estimate.zooms[0]).toMatchObject({ zoom: 1, sampleCount: 4 });
+    expect(estimate.bytes).toEqual({ value: 3600, low: 3600, high: 3600 });
+  });
+
+  test("is not faster than the rate limits", async () => {
+    const estimate = await estimateDownload(config, {
+      samplesPerZoom: 1,
+      rateLimits: { localhost: { requestsPerSecond: 10, burst: 10 } },
+    });
+
+    expect(estimate.duration.low).toBeCloseTo(2000);
+  });
+
+  test("throws if the estimate exceeds the byte budget", async () => {
+    const error = await estimateDownload(config, { samplesPerZoom: 16, maxBytes: 4000 }).catch(
+      (error: unknown) => error
+    );
+
+    expect(error).toBeInstanceOf(ByteBudgetError);
+    expect((error as ByteBudgetError).bytes).toBe(4400);
+    expect((error as ByteBudgetError).message).toBe(
+      "The download is estimated at 4.30 KB, which exceeds its budget of 3.91 KB"
+    );
+  });
+});
+
+describe("fetchTileResults with maxBytes", () => {
+  test("stops the download once the budget is exceeded", async () => {
+    const zoom1: FetchTilesConfig = {
+      ...config,
+      totalCount: 4,
+      tileRanges: config.tileRanges.slice(0, 1),
+    };
+    let count = 0;
+
+    const error = await (async () => {
+      for await (const result of fetchTileResults(zoom1, { maxBytes: 250, maxParallelDownloads: 1 })) {
+        if (result.ok) count++;
+      }
+    })().catch((error: unknown) => error);
+
+    // The third tile exceeds the budget
+    expect(count).toBe(2);
+    expect(error).toBeInstanceOf(ByteBudgetError);
+    expect((error as ByteBudgetError).bytes).toBe(300);
+  });
+});
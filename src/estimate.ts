@@ -0,0 +1,251 @@
+import { fetchTileResults } from "./tiles";
+import { ByteBudgetError } from "./errors";
+import { isEmptyTile } from "./empty";
+import { DEFAULT_RATE_LIMITS, getHostname, RateLimiter } from "./ratelimit";
+import { formatDuration } from "./progress";
+import { formatBytes } from "./utils";
+import type { FetchTileResultsOptions, FetchTilesConfig, TileRange } from "./types";
+
+export interface EstimateOptions
+  extends Omit<
+    FetchTileResultsOptions,
+    "versions" | "checkpoint" | "pauseController" | "onProgress" | "onComplete"
+  > {
+  /** Tiles downloaded per zoom level (default: 10) */
+  samplesPerZoom?: number;
+  /** Random number generator for the sample, between 0 and 1 (default: Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Estimated value with its 95% confidence interval
+ */
+export interface EstimateInterval {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export interface ZoomEstimate {
+  zoom: number;
+  count: number;
+  sampleCount: number;
+  bytes: EstimateInterval;
+}
+
+export interface DownloadEstimate {
+  totalCount: number;
+  sampleCount: number;
+  /** Sampled tiles that failed, counted with 0 bytes */
+  failedSamples: number;
+  /** Sampled empty tiles that the download drops, counted with 0 bytes */
+  skippedSamples: number;
+  bytes: EstimateInterval;
+  /** Duration in milliseconds with `maxParallelDownloads` parallel downloads */
+  duration: EstimateInterval;
+  zooms: ZoomEstimate[];
+}
+
+/** Sampled values of a zoom level */
+interface Stratum {
+  zoom: number;
+  count: number;
+  sample: SampledTile[];
+  bytes: number[];
+  durations: number[];
+}
+
+interface SampledTile {
+  x: number;
+  y: number;
+}
+
+// Two-sided 95% quantile of the normal distribution
+const Z_95 = 1.96;
+
+/**
+ * Pick `size` distinct tiles of a zoom level at random, spread over all its tile ranges
+ */
+function sampleTiles(ranges: TileRange[], size: number, random: () => number): SampledTile[] {
+  const count = ranges.reduce((sum, range) => sum + range.count, 0);
+  const indices = new Set<number>();
+  while (indices.size < Math.min(size, count)) {
+    indices.add(Math.floor(random() * count));
+  }
+
+  return [...indices].map((index) => {
+    for (const range of ranges) {
+      if (index < range.count) {
+        const height = range.maxY - range.minY + 1;
+        return { x: range.minX + Math.floor(index / height), y: range.minY + (index % height) };
+      }
+      index -= range.count;
+    }
+    throw new Error(`Tile index ${index} is outside the tile ranges`);
+  });
+}
+
+/**
+ * Total of all tiles, extrapolated from the sample of every zoom level
+ *
+ * Stratified estimate with the finite population correction, so zoom levels
+ * that were sampled completely don't add to the confidence interval.
+ */
+function estimateTotal(strata: { count: number; values: number[] }[]): EstimateInterval {
+  let value = 0;
+  let variance = 0;
+
+  for (const { count, values } of strata) {
+    const n = values.length;
+    if (n === 0) continue;
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    value += count * mean;
+    if (n > 1) {
+      const sampleVariance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+      variance += count * count * (1 - n / count) * (sampleVariance / n);
+    }
+  }
+
+  const margin = Z_95 * Math.sqrt(variance);
+  return { value, low: Math.max(0, value - margin), high: value + margin };
+}
+
+/**
+ * Estimate the size and duration of a download by downloading a random sample
+ * of tiles from every zoom level
+ *
+ * The sampled tiles are downloaded one after the other to measure the time of a
+ * single request. The duration assumes `maxParallelDownloads` of these requests
+ * at a time, but not faster than the rate limits of the hosts allow.
+ *
+ * @throws ByteBudgetError if `maxBytes` is set and the estimated size exceeds it
+ */
+export async function estimateDownload(
+  config: FetchTilesConfig,
+  options: EstimateOptions = {}
+): Promise<DownloadEstimate> {
+  const {
+    samplesPerZoom = 10,
+    random = Math.random,
+    maxParallelDownloads = 6,
+    maxBytes,
+    rateLimits,
+    emptyTiles,
+    ...fetchOptions
+  } = options;
+  const rateLimiter =
+    options.rateLimiter ?? new RateLimiter({ ...DEFAULT_RATE_LIMITS, ...rateLimits });
+
+  const rangesByZoom = new Map<number, TileRange[]>();
+  for (const range of config.tileRanges) {
+    rangesByZoom.set(range.zoom, [...(rangesByZoom.get(range.zoom) ?? []), range]);
+  }
+  const strata: Stratum[] = [...rangesByZoom].map(([zoom, ranges]) => ({
+    zoom,
+    count: ranges.reduce((sum, range) => sum + range.count, 0),
+    sample: sampleTiles(ranges, samplesPerZoom, random),
+    bytes: [],
+    durations: [],
+  }));
+
+  const sampleRanges: TileRange[] = strata.flatMap(({ zoom, sample }) =>
+    sample.map(({ x, y }) => ({ zoom, minX: x, maxX: x, minY: y, maxY: y, count: 1 }))
+  );
+  const sampleConfig: FetchTilesConfig = {
+    ...config,
+    totalCount: sampleRanges.length,
+    tileRanges: sampleRanges,
+  };
+
+  let failedSamples = 0;
+  let skippedSamples = 0;
+  const hostnames = new Set<string>();
+  let startedAt = performance.now();
+  // Empty tiles are detected here, a dropped tile would be missing from the sample
+  for await (const result of fetchTileResults(sampleConfig, {
+    ...fetchOptions,
+    rateLimiter,
+    maxParallelDownloads: 1,
+  })) {
+    const stratum = strata.find(({ zoom }) => zoom === result.tile.z) as Stratum;
+    stratum.durations.push(performance.now() - startedAt);
+    const skipped =
+      result.ok &&
+      emptyTiles !== undefined &&
+      (emptyTiles.action !== "reference" || result.tile.blob.size === 0) &&
+      (await isEmptyTile(result.tile.blob, emptyTiles));
+    stratum.bytes.push(result.ok && !skipped ? result.tile.blob.size : 0);
+    if (!result.ok) failedSamples++;
+    if (skipped) skippedSamples++;
+    // Tile URL functions may return relative URLs
+    const hostname = getHostname(result.tile.url);
+    if (hostname !== undefined) hostnames.add(hostname);
+    startedAt = performance.now();
+  }
+
+  const bytes = estimateTotal(strata.map(({ count, bytes }) => ({ count, values: bytes })));
+  const requestTime = estimateTotal(
+    strata.map(({ count, durations }) => ({ count, values: durations }))
+  );
+
+  // Requests can't be faster than the rate limits of their hosts together,
+  // unless a host has no limit
+  const limits = new Map<string, number>();
+  let unlimited = hostnames.size === 0;
+  for (const hostname of hostnames) {
+    const [rule, limit] = rateLimiter.getLimit(hostname) ?? [];
+    if (rule && limit) {
+      limits.set(rule, limit.requestsPerSecond);
+    } else {
+      unlimited = true;
+    }
+  }
+  const requestsPerSecond = [...limits.values()].reduce((sum, limit) => sum + limit, 0);
+  const minDuration = unlimited ? 0 : (config.totalCount / requestsPerSecond) * 1000;
+  const toDuration = (time: number) => Math.max(minDuration, time / maxParallelDownloads);
+
+  const estimate: DownloadEstimate = {
+    totalCount: config.totalCount,
+    sampleCount: sampleRanges.length,
+    failedSamples,
+    skippedSamples,
+    bytes,
+    duration: {
+      value: toDuration(requestTime.value),
+      low: toDuration(requestTime.low),
+      high: toDuration(requestTime.high),
+    },
+    zooms: strata.map(({ zoom, count, bytes }) => ({
+      zoom,
+      count,
+      sampleCount: bytes.length,
+      bytes: estimateTotal([{ count, values: bytes }]),
+    })),
+  };
+
+  if (maxBytes !== undefined && estimate.bytes.value > maxBytes) {
+    throw new ByteBudgetError(
+      `The download is estimated at ${formatBytes(Math.round(estimate.bytes.value))}, which exceeds its budget of ${formatBytes(maxBytes)}`,
+      { bytes: estimate.bytes.value, maxBytes }
+    );
+  }
+
+  return estimate;
+}
+
+/**
+ * Format an estimate to a human-readable string
+ * (e.g., "12000 tiles, 45.20 MB (41.87 MB - 48.53 MB), 2m 30s (2m 10s - 2m 50s)")
+ */
+export function formatEstimate(estimate: DownloadEstimate): string {
+  const { bytes, duration } = estimate;
+  const formatRange = (interval: EstimateInterval, format: (value: number) => string) =>
+    `${format(interval.value)} (${format(interval.low)} - ${format(interval.high)})`;
+
+  return [
+    `${estimate.totalCount} tiles`,
+    formatRange(bytes, (value) => formatBytes(Math.round(value))),
+    formatRange(duration, formatDuration),
+  ].join(", ");
+}
@@ -0,0 +1,144 @@
+import type { TileCache, TileCacheEntry } from "./types";
+
+export interface FileTileCacheOptions {
+  /** Total size of the cached tiles in bytes (default: 500 MB) */
+  maxBytes?: number;
+}
+
+/**
+ * Stored next to the tile data as `<hash>.json`
+ */
+interface FileTileCacheMetadata {
+  key: string;
+  type: string;
+  storedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface IndexEntry {
+  size: number;
+  usedAt: number;
+}
+
+/**
+ * Tile cache in a directory, evicting the least recently used tiles
+ *
+ * Every tile is stored as a data file and a JSON file with its metadata,
+ * named after the SHA-1 hash of the key. Reading a tile updates the
+ * modification time of its data file, which orders the eviction.
+ *
+ * Uses `node:fs`, so it runs under Bun and Node but not in the browser.
+ */
+export class FileTileCache implements TileCache {
+  private readonly root: string;
+  private readonly maxBytes: number;
+  private index: Promise<Map<string, IndexEntry>> | undefined;
+  /** Total size of the tiles in the index */
+  private size = 0;
+
+  constructor(directory: string, options: FileTileCacheOptions = {}) {
+    this.root = directory.replace(/\/+$/, "");
+    this.maxBytes = options.maxBytes ?? 500 * 1024 * 1024;
+  }
+
+  async get(key: string): Promise<TileCacheEntry | undefined> {
+    const { readFile, utimes } = await import("node:fs/promises");
+    const name = await this.getName(key);
+
+    let metadata: FileTileCacheMetadata;
+    let data: Uint8Array<ArrayBuffer>;
+    try {
+      metadata = JSON.parse(await readFile(`${this.root}/${name}.json`, "utf-8"));
+      data = await readFile(`${this.root}/${name}.tile`);
+    } catch {
+      return undefined;
+    }
+    // Hash collisions are practically impossible, but the key is stored anyway
+    if (metadata.key !== key) return undefined;
+
+    const now = new Date();
+    await utimes(`${this.root}/${name}.tile`, now, now).catch(() => {});
+    const entry = (await this.getIndex()).get(name);
+    if (entry) entry.usedAt = now.getTime();
+
+    return {
+      blob: new Blob([data], { type: metadata.type }),
+      storedAt: metadata.storedAt,
+      etag: metadata.etag,
+      lastModified: metadata.lastModified,
+    };
+  }
+
+  async set(key: string, entry: TileCacheEntry): Promise<void> {
+    const { mkdir, writeFile } = await import("node:fs/promises");
+    const name = await this.getName(key);
+    const metadata: FileTileCacheMetadata = {
+      key,
+      type: entry.blob.type,
+      storedAt: entry.storedAt,
+      etag: entry.etag,
+      lastModified: entry.lastModified,
+    };
+
+    await mkdir(this.root, { recursive: true });
+    await writeFile(`${this.root}/${name}.tile`, new Uint8Array(await entry.blob.arrayBuffer()));
+    await writeFile(`${this.root}/${name}.json`, JSON.stringify(metadata));
+
+    const index = await this.getIndex();
+    this.size += entry.blob.size - (index.get(name)?.size ?? 0);
+    index.set(name, { size: entry.blob.size, usedAt: Date.now() });
+    if (this.size > this.maxBytes) await this.evict(index);
+  }
+
+  async delete(key: string): Promise<void> {
+    const name = await this.getName(key);
+    await this.remove(name);
+  }
+
+  private async getName(key: string): Promise<string> {
+    const { createHash } = await import("node:crypto");
+    return createHash("sha1").update(key).digest("hex");
+  }
+
+  private async remove(name: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(`${this.root}/${name}.tile`, { force: true });
+    await rm(`${this.root}/${name}.json`, { force: true });
+    const index = await this.getIndex();
+    this.size -= index.get(name)?.size ?? 0;
+    index.delete(name);
+  }
+
+  /**
+   * Size and last use of the cached tiles, read from the directory once
+   */
+  private getIndex(): Promise<Map<string, IndexEntry>> {
+    this.index ??= (async () => {
+      const { readdir, stat } = await import("node:fs/promises");
+      const index = new Map<string, IndexEntry>();
+      const fileNames = await readdir(this.root).catch(() => []);
+
+      for (const fileName of fileNames) {
+        const match = fileName.match(/^([0-9a-f]{40})\.tile$/);
+        if (!match) continue;
+
+        const stats = await stat(`${this.root}/${fileName}`).catch(() => undefined);
+        if (stats) {
+          index.set(match[1] as string, { size: stats.size, usedAt: stats.mtimeMs });
+          this.size += stats.size;
+        }
+      }
+      return index;
+    })();
+    return this.index;
+  }
+
+  private async evict(index: Map<string, IndexEntry>): Promise<void> {
+    const leastRecentlyUsed = [...index].sort(([, a], [, b]) => a.usedAt - b.usedAt);
+    for (const [name] of leastRecentlyUsed) {
+      if (this.size <= this.maxBytes) break;
+      await this.remove(name);
+    }
+  }
+}
@@ -1,4 +1,94 @@
 // Export functions
-export { fetchTile, fetchTiles, processTilesConfig } from "./tiles";
-export { formatBytes } from "./utils";
+export {
+  fetchTile,
+  fetchTiles,
+  fetchTileResults,
+  createRetryConfig,
+  processTilesConfig,
+} from "./tiles";
+export { registerCRS, setCRSResolver, epsgIOResolver } from "./crs";
+export { getWMTSSource } from "./wmts";
+export { createWMSSource } from "./wms";
+export type { WMSOptions, WMSSource } from "./wms";
+export { loadTileJSON } from "./tilejson";
+export type { WMTSOptions, WMTSSource } from "./wmts";
+export { formatBytes, getTileFormat } from "./utils";
+export { formatProgress, formatDuration } from "./progress";
+export { TileFetchError, TileValidationError, TileLimitError, ByteBudgetError } from "./errors";
+export type { TileValidationReason } from "./errors";
+export { validateTile, sniffTileFormat, getImageSize } from "./validate";
+export { PauseController } from "./pause";
+export { RateLimiter, DEFAULT_RATE_LIMITS } from "./ratelimit";
+export { MemoryTileCache } from "./cache";
+export type { MemoryTileCacheOptions } from "./cache";
+export { FileTileCache } from "./filecache";
+export type { FileTileCacheOptions } from "./filecache";
+export { IndexedDBTileCache } from "./indexeddb";
+export type { IndexedDBTileCacheOptions } from "./indexeddb";
+export { fetchTileUpdates, getTileKey } from "./update";
+export type { TileUpdate, TileUpdateSummary } from "./update";
+export { isEmptyTile } from "./empty";
+export { estimateDownload, formatEstimate } from "./estimate";
+export type {
+  EstimateOptions,
+  EstimateInterval,
+  ZoomEstimate,
+  DownloadEstimate,
+} from "./estimate";
+export { createCheckpoint } from "./checkpoint";
+export { writeMBTiles } from "./mbtiles";
+export type { SQLiteDatabase, MBTilesOptions, MBTilesSummary, VectorLayer } from "./mbtiles";
+export {
+  writePMTiles,
+  readPMTilesHeader,
+  readPMTilesMetadata,
+  getPMTilesTile,
+  zxyToTileId,
+  tileIdToZxy,
+  PMTilesCompression,
+  PMTilesTileType,
+} from "./pmtiles";
+export type { PMTilesHeader, PMTilesOptions } from "./pmtiles";
+export { writeTileDirectory } from "./directory";
+export type {
+  TileDirectoryOptions,
+  TileDirectoryManifest,
+  TileDirectorySummary,
+} from "./directory";
+export { createZipStream, writeZip } from "./zip";
+export type { ZipOptions } from "./zip";
 export { default } from "./tiles";
+
+// Export types
+export type {
+  RetryOptions,
+  RequestOptions,
+  RateLimit,
+  TileCache,
+  TileCacheEntry,
+  TileCacheOptions,
+  TileVersion,
+  TileVersions,
+  EmptyTileOptions,
+  TileValidationOptions,
+  FetchTileOptions,
+  FetchTilesOptions,
+  FetchTileResultsOptions,
+  TileResult,
+  TileSuccess,
+  TileFailure,
+  FetchSummary,
+  DownloadCheckpoint,
+  DownloadProgress,
+  ZoomProgress,
+  CRSDefinition,
+  CRSResolver,
+  TileGridOptions,
+  AreaOfInterest,
+  AreaGeometry,
+  PolygonGeometry,
+  MultiPolygonGeometry,
+  LineStringGeometry,
+  Position,
+  TileJSON,
+} from "./types";
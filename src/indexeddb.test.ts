@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import "fake-indexeddb/auto";
+import { IndexedDBTileCache } from "./indexeddb";
+import type { TileCacheEntry } from "./types";
+
+let databaseCount = 0;
+
+// Every test gets a database of its own
+function createName(): string {
+  return `tiles-${++databaseCount}`;
+}
+
+function createEntry(data: string): TileCacheEntry {
+  return { blob: new Blob([data], { type: "image/png" }), storedAt: 0 };
+}
+
+describe("IndexedDBTileCache", () => {
+  test("keeps the tiles and their validators", async () => {
+    const name = createName();
+    await new IndexedDBTileCache({ name }).set("tile", {
+      ...createEntry("data"),
+      storedAt: 1000,
+      etag: '"v1"',
+      lastModified: new Date(0).toUTCString(),
+    });
+
+    const entry = await new IndexedDBTileCache({ name }).get("tile");
+    expect(await entry?.blob.text()).toBe("data");
+    expect(entry?.blob.type).toBe("image/png");
+    expect(entry?.storedAt).toBe(1000);
+    expect(entry?.etag).toBe('"v1"');
+    expect(entry?.lastModified).toBe(new Date(0).toUTCString());
+    expect(await new IndexedDBTileCache({ name }).get("other")).toBeUndefined();
+  });
+
+  test("evicts the least recently used tiles", async () => {
+    const cache = new IndexedDBTileCache({ name: createName(), maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await Bun.sleep(5);
+    await cache.set("b", createEntry("bbbb"));
+    await Bun.sleep(5);
+    await cache.get("a");
+    await Bun.sleep(5);
+    await cache.set("c", createEntry("cccc"));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  test("counts replaced tiles and tiles of earlier runs once", async () => {
+    const name = createName();
+    const cache = new IndexedDBTileCache({ name, maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await cache.set("a", createEntry("aaaa"));
+    await Bun.sleep(5);
+    await cache.set("b", createEntry("bbbb"));
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeDefined();
+
+    // 12 bytes with the tiles of the first cache
+    await Bun.sleep(5);
+    const reopened = new IndexedDBTileCache({ name, maxBytes: 10 });
+    await reopened.set("c", createEntry("cccc"));
+    expect(await reopened.get("a")).toBeUndefined();
+    expect(await reopened.get("b")).toBeDefined();
+    expect(await reopened.get("c")).toBeDefined();
+  });
+
+  test("deletes tiles", async () => {
+    const cache = new IndexedDBTileCache({ name: createName(), maxBytes: 10 });
+    await cache.set("a", createEntry("aaaa"));
+    await cache.set("b", createEntry("bbbb"));
+    await cache.delete("a");
+    await cache.delete("other");
+
+    // Fits without evicting, the deleted tile no longer counts
+    await cache.set("c", createEntry("cccc"));
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.get("b")).toBeDefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+});
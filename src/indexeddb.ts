@@ -0,0 +1,164 @@
+import type { TileCache, TileCacheEntry } from "./types";
+
+export interface IndexedDBTileCacheOptions {
+  /** Name of the database (default: "simple-tile-downloader") */
+  name?: string;
+  /** Total size of the cached tiles in bytes (default: 200 MB) */
+  maxBytes?: number;
+}
+
+interface StoredTile extends TileCacheEntry {
+  key: string;
+  size: number;
+  usedAt: number;
+}
+
+const STORE_NAME = "tiles";
+const USED_AT_INDEX = "usedAt";
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Tile cache in IndexedDB for the browser, evicting the least recently used tiles
+ */
+export class IndexedDBTileCache implements TileCache {
+  private readonly name: string;
+  private readonly maxBytes: number;
+  private database: Promise<IDBDatabase> | undefined;
+  private size: Promise<number> | undefined;
+
+  constructor(options: IndexedDBTileCacheOptions = {}) {
+    this.name = options.name ?? "simple-tile-downloader";
+    this.maxBytes = options.maxBytes ?? 200 * 1024 * 1024;
+  }
+
+  async get(key: string): Promise<TileCacheEntry | undefined> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+
+    const stored = (await toPromise(store.get(key))) as StoredTile | undefined;
+    if (stored) {
+      store.put({ ...stored, usedAt: Date.now() });
+    }
+    await whenDone(transaction);
+
+    return (
+      stored && {
+        blob: stored.blob,
+        storedAt: stored.storedAt,
+        etag: stored.etag,
+        lastModified: stored.lastModified,
+      }
+    );
+  }
+
+  async set(key: string, entry: TileCacheEntry): Promise<void> {
+    const database = await this.open();
+    // Sum up the existing tiles before the size is updated
+    await this.getSize(database);
+    const transaction = database.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+
+    const previous = (await toPromise(store.get(key))) as StoredTile | undefined;
+    const stored: StoredTile = { ...entry, key, size: entry.blob.size, usedAt: Date.now() };
+    store.put(stored);
+    await whenDone(transaction);
+
+    this.addSize(database, stored.size - (previous?.size ?? 0));
+    await this.evict(database);
+  }
+
+  async delete(key: string): Promise<void> {
+    const database = await this.open();
+    await this.getSize(database);
+    const transaction = database.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+
+    const previous = (await toPromise(store.get(key))) as StoredTile | undefined;
+    store.delete(key);
+    await whenDone(transaction);
+
+    this.addSize(database, -(previous?.size ?? 0));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex(USED_AT_INDEX, "usedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.database;
+  }
+
+  /**
+   * Total size of the cached tiles, summed up once and then kept up to date
+   */
+  private getSize(database: IDBDatabase): Promise<number> {
+    this.size ??= new Promise((resolve, reject) => {
+      let size = 0;
+      const request = database
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(size);
+          return;
+        }
+        size += (cursor.value as StoredTile).size;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return this.size;
+  }
+
+  // Chained, so concurrent changes don't overwrite each other
+  private addSize(database: IDBDatabase, delta: number): void {
+    this.size = this.getSize(database).then((size) => size + delta);
+  }
+
+  /**
+   * Delete the least recently used tiles until the cache fits into maxBytes
+   */
+  private async evict(database: IDBDatabase): Promise<void> {
+    let size = await this.getSize(database);
+    if (size <= this.maxBytes) return;
+
+    let removed = 0;
+    const transaction = database.transaction(STORE_NAME, "readwrite");
+    const request = transaction.objectStore(STORE_NAME).index(USED_AT_INDEX).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || size <= this.maxBytes) return;
+
+      const tileSize = (cursor.value as StoredTile).size;
+      size -= tileSize;
+      removed += tileSize;
+      cursor.delete();
+      cursor.continue();
+    };
+    await whenDone(transaction);
+
+    this.addSize(database, -removed);
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, test, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import { writeMBTiles } from "./mbtiles";
+import { createXYZTileGrid } from "./tilegrid";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+const config: FetchTilesConfig = {
+  url: "http://localhost/{z}/{x}/{y}.png",
+  bbox: [13.3, 52.5, 13.4, 52.55],
+  minZoom: 11,
+  maxZoom: 12,
+  crs: "EPSG:3857",
+  totalCount: 6,
+  tileRanges: [
+    { zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 671, count: 2 },
+    { zoom: 12, minX: 2199, maxX: 2200, minY: 1342, maxY: 1343, count: 4 },
+  ],
+};
+
+function createTile(x: number, y: number, z: number, content: string): FetchedTile {
+  return {
+    url: `http://localhost/${z}/${x}/${y}.png`,
+    x,
+    y,
+    z,
+    blob: new Blob([content], { type: "image/png" }),
+  };
+}
+
+async function* generateTiles(tiles: FetchedTile[]): AsyncGenerator<FetchedTile> {
+  yield* tiles;
+}
+
+function readMetadata(db: Database): Record<string, string> {
+  const rows = db.query("SELECT name, value FROM metadata").all() as Array<{ name: string; value: string }>;
+  return Object.fromEntries(rows.map(({ name, value }) => [name, value]));
+}
+
+describe("writeMBTiles", () => {
+  test("writes tiles with TMS rows", async () => {
+    const db = new Database(":memory:");
+    const summary = await writeMBTiles(
+      db,
+      generateTiles([createTile(1099, 671, 11, "a"), createTile(2199, 1343, 12, "b")]),
+      config
+    );
+
+    expect(summary).toEqual({ tileCount: 2, uniqueTileCount: 2, format: "png" });
+
+    const rows = db
+      .query("SELECT zoom_level, tile_column, tile_row, tile_data FROM tiles ORDER BY zoom_level")
+      .all() as Array<{ zoom_level: number; tile_column: number; tile_row: number; tile_data: Uint8Array }>;
+    expect(rows).toHaveLength(2);
+    expect(rows[0]?.tile_column).toBe(1099);
+    expect(rows[0]?.tile_row).toBe(2 ** 11 - 1 - 671);
+    expect(new TextDecoder().decode(rows[0]?.tile_data)).toBe("a");
+    expect(rows[1]?.tile_row).toBe(2 ** 12 - 1 - 1343);
+  });
+
+  test("writes TMS rows of custom grids", async () => {
+    const db = new Database(":memory:");
+    // Three times as many rows as an XYZ grid
+    const grid = {
+      ...createXYZTileGrid([-180, -90, 180, 90], 0, 12),
+      sizes: Array.from({ length: 13 }, (_, zoom): [number, number] => [2 ** zoom, 3 * 2 ** zoom]),
+    };
+    await writeMBTiles(db, generateTiles([createTile(1099, 671, 11, "a")]), { ...config, grid });
+
+    const row = db.query("SELECT tile_row FROM tiles").get() as { tile_row: number };
+    expect(row.tile_row).toBe(3 * 2 ** 11 - 1 - 671);
+  });
+
+  test("fills the metadata table from the config", async () => {
+    const db = new Database(":memory:");
+    await writeMBTiles(db, generateTiles([createTile(1099, 671, 11, "a")]), config, {
+      name: "Berlin",
+      attribution: "© OpenStreetMap contributors",
+    });
+
+    const metadata = readMetadata(db);
+    expect(metadata.name).toBe("Berlin");
+    expect(metadata.format).toBe("png");
+    expect(metadata.bounds).toBe("13.3,52.5,13.4,52.55");
+    expect(metadata.minzoom).toBe("11");
+    expect(metadata.maxzoom).toBe("12");
+    expect(metadata.attribution).toBe("© OpenStreetMap contributors");
+    expect(metadata.description).toBeUndefined();
+    expect(metadata.json).toBeUndefined();
+  });
+
+  test("names sources without a URL template", async () => {
+    const db = new Database(":memory:");
+    const { url: _url, ...source } = config;
+    await writeMBTiles(db, generateTiles([createTile(1099, 671, 11, "a")]), {
+      ...source,
+      tileUrlFunction: (z, x, y) => `http://localhost/${z}/${x}/${y}.png`,
+    });
+
+    expect(readMetadata(db).name).toBe("tiles");
+  });
+
+  test("centers bboxes crossing the antimeridian on it", async () => {
+    const db = new Database(":memory:");
+    await writeMBTiles(db, generateTiles([]), { ...config, bbox: [170, -20, -170, 20] });
+
+    expect(readMetadata(db).center).toBe("180,0,11");
+  });
+
+  test("writes the vector layers of vector tiles", async () => {
+    const db = new Database(":memory:");
+    const tile = createTile(1099, 671, 11, "a");
+    const vectorTile = { ...tile, blob: new Blob(["a"], { type: "application/x-protobuf" }) };
+    const vectorLayers = [{ id: "water", fields: { name: "String" } }];
+
+    await expect(writeMBTiles(db, generateTiles([vectorTile]), config)).rejects.toThrow(
+      "MBTiles with vector tiles need the vectorLayers option"
+    );
+    expect(db.inTransaction).toBe(false);
+    expect(db.query("SELECT COUNT(*) AS count FROM tiles").get()).toEqual({ count: 0 });
+
+    await writeMBTiles(db, generateTiles([vectorTile]), config, { vectorLayers });
+    const metadata = readMetadata(db);
+    expect(metadata.format).toBe("pbf");
+    expect(JSON.parse(metadata.json ?? "")).toEqual({ vector_layers: vectorLayers });
+  });
+
+  test("stores identical tiles once with deduplication", async () => {
+    const db = new Database(":memory:");
+    const summary = await writeMBTiles(
+      db,
+      generateTiles([
+        createTile(1099, 671, 11, "ocean"),
+        createTile(1100, 671, 11, "ocean"),
+        createTile(1101, 671, 11, "land"),
+      ]),
+      config,
+      { deduplicate: true }
+    );
+
+    expect(summary.tileCount).toBe(3);
+    expect(summary.uniqueTileCount).toBe(2);
+    expect(db.query("SELECT COUNT(*) AS count FROM images").get()).toEqual({ count: 2 });
+
+    // The tiles view resolves the shared images
+    const rows = db.query("SELECT tile_data FROM tiles ORDER BY tile_column").all() as Array<{
+      tile_data: Uint8Array;
+    }>;
+    expect(rows.map((row) => new TextDecoder().decode(row.tile_data))).toEqual([
+      "ocean",
+      "ocean",
+      "land",
+    ]);
+  });
+
+  test("rolls back when the download fails", async () => {
+    const db = new Database(":memory:");
+
+    async function* failingTiles(): AsyncGenerator<FetchedTile> {
+      yield createTile(1099, 671, 11, "a");
+      throw new Error("Download failed");
+    }
+
+    await expect(writeMBTiles(db, failingTiles(), config)).rejects.toThrow("Download failed");
+    expect(db.query("SELECT COUNT(*) AS count FROM tiles").get()).toEqual({ count: 0 });
+  });
+});
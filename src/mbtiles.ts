@@ -0,0 +1,192 @@
+import { getBBoxCenter } from "./crs";
+import { getTileMatrixSize } from "./tilegrid";
+import { getTileFormat, hashTileData } from "./utils";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+export type SQLiteValue = string | number | Uint8Array | null;
+
+/**
+ * Minimal SQLite interface, satisfied by `bun:sqlite`, `node:sqlite` and `better-sqlite3`
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: SQLiteValue[]): unknown;
+  };
+}
+
+/**
+ * Layer of vector tiles, as listed in the `vector_layers` of the `json` metadata entry
+ */
+export interface VectorLayer {
+  id: string;
+  /** Attribute names and their types, e.g. `{ name: "String" }` */
+  fields: Record<string, string>;
+  description?: string;
+  minzoom?: number;
+  maxzoom?: number;
+}
+
+export interface MBTilesOptions {
+  /** Value of the `name` metadata entry (default: the tile URL template, "tiles" without one) */
+  name?: string;
+  description?: string;
+  attribution?: string;
+  /** Store identical tiles only once (default: false) */
+  deduplicate?: boolean;
+  /** Number of tiles written per transaction (default: 1000) */
+  batchSize?: number;
+  /** Layers of the vector tiles, required for `pbf` tiles */
+  vectorLayers?: VectorLayer[];
+}
+
+export interface MBTilesSummary {
+  tileCount: number;
+  /** Number of distinct tile images, equal to tileCount without deduplication */
+  uniqueTileCount: number;
+  format?: string;
+}
+
+/**
+ * Create the MBTiles 1.3 schema. With deduplication, `tiles` is a view on
+ * the `map` and `images` tables as described in the specification.
+ */
+function createSchema(db: SQLiteDatabase, deduplicate: boolean): void {
+  db.exec("CREATE TABLE IF NOT EXISTS metadata (name TEXT, value TEXT)");
+  db.exec("CREATE UNIQUE INDEX IF NOT EXISTS metadata_name ON metadata (name)");
+
+  if (deduplicate) {
+    db.exec(
+      "CREATE TABLE IF NOT EXISTS map (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_id TEXT)"
+    );
+    db.exec(
+      "CREATE UNIQUE INDEX IF NOT EXISTS map_index ON map (zoom_level, tile_column, tile_row)"
+    );
+    db.exec("CREATE TABLE IF NOT EXISTS images (tile_data BLOB, tile_id TEXT)");
+    db.exec("CREATE UNIQUE INDEX IF NOT EXISTS images_id ON images (tile_id)");
+    db.exec(
+      `CREATE VIEW IF NOT EXISTS tiles AS
+        SELECT map.zoom_level AS zoom_level, map.tile_column AS tile_column,
+               map.tile_row AS tile_row, images.tile_data AS tile_data
+        FROM map JOIN images ON images.tile_id = map.tile_id`
+    );
+  } else {
+    db.exec(
+      "CREATE TABLE IF NOT EXISTS tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)"
+    );
+    db.exec(
+      "CREATE UNIQUE INDEX IF NOT EXISTS tile_index ON tiles (zoom_level, tile_column, tile_row)"
+    );
+  }
+}
+
+/**
+ * Write tiles to an MBTiles 1.3 database
+ *
+ * Rows are flipped from XYZ to the TMS scheme used by MBTiles.
+ * The metadata table is filled from the config once all tiles are written,
+ * with the format detected from the MIME type of the first tile. Vector
+ * tiles need `vectorLayers` for the `json` entry the specification requires.
+ *
+ * @param db - Open SQLite database, e.g. `new Database("area.mbtiles")` from `bun:sqlite`
+ * @param tiles - Tiles to write, e.g. `tiles.fetch()`
+ * @param config - Config the tiles were downloaded with
+ */
+export async function writeMBTiles(
+  db: SQLiteDatabase,
+  tiles: AsyncIterable<FetchedTile>,
+  config: FetchTilesConfig,
+  options: MBTilesOptions = {}
+): Promise<MBTilesSummary> {
+  const { deduplicate = false, batchSize = 1000, vectorLayers } = options;
+  const summary: MBTilesSummary = { tileCount: 0, uniqueTileCount: 0 };
+
+  createSchema(db, deduplicate);
+
+  const insertTile = deduplicate
+    ? db.prepare(
+        "INSERT OR REPLACE INTO map (zoom_level, tile_column, tile_row, tile_id) VALUES (?, ?, ?, ?)"
+      )
+    : db.prepare(
+        "INSERT OR REPLACE INTO tiles (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)"
+      );
+  const insertImage = deduplicate
+    ? db.prepare("INSERT OR IGNORE INTO images (tile_data, tile_id) VALUES (?, ?)")
+    : undefined;
+  const uniqueTileIds = new Set<string>();
+
+  // Opened with the first tile of a batch, so invalid input is rejected before anything is written
+  let inTransaction = false;
+  function begin(): void {
+    if (!inTransaction) db.exec("BEGIN");
+    inTransaction = true;
+  }
+
+  try {
+    for await (const tile of tiles) {
+      summary.format ??= getTileFormat(tile.blob.type);
+      if (summary.format === "pbf" && !vectorLayers) {
+        throw new Error("MBTiles with vector tiles need the vectorLayers option");
+      }
+      begin();
+
+      const data = new Uint8Array(await tile.blob.arrayBuffer());
+      // MBTiles uses the TMS scheme with the origin at the bottom-left, 2^z rows for XYZ grids
+      const matrixHeight = config.grid
+        ? getTileMatrixSize(config.grid, tile.z)[1]
+        : Math.pow(2, tile.z);
+      const tileRow = matrixHeight - 1 - tile.y;
+
+      if (deduplicate) {
+        const tileId = await hashTileData(data);
+        if (!uniqueTileIds.has(tileId)) {
+          uniqueTileIds.add(tileId);
+          insertImage?.run(data, tileId);
+        }
+        insertTile.run(tile.z, tile.x, tileRow, tileId);
+      } else {
+        insertTile.run(tile.z, tile.x, tileRow, data);
+      }
+
+      summary.tileCount++;
+      if (summary.tileCount % batchSize === 0) {
+        db.exec("COMMIT");
+        inTransaction = false;
+      }
+    }
+
+    summary.uniqueTileCount = deduplicate ? uniqueTileIds.size : summary.tileCount;
+
+    const [west, south, east, north] = config.bbox;
+    const [centerLon, centerLat] = getBBoxCenter(config.bbox);
+    const metadata: Record<string, string | undefined> = {
+      // Required entry, sources with a tileUrlFunction have no template
+      name: options.name ?? (config.url || "tiles"),
+      format: summary.format,
+      bounds: [west, south, east, north].join(","),
+      center: [centerLon, centerLat, config.minZoom].join(","),
+      minzoom: config.minZoom.toString(),
+      maxzoom: config.maxZoom.toString(),
+      type: "baselayer",
+      description: options.description,
+      attribution: options.attribution,
+      json:
+        summary.format === "pbf" ? JSON.stringify({ vector_layers: vectorLayers }) : undefined,
+    };
+
+    begin();
+    const insertMetadata = db.prepare(
+      "INSERT OR REPLACE INTO metadata (name, value) VALUES (?, ?)"
+    );
+    for (const [name, value] of Object.entries(metadata)) {
+      if (value !== undefined) insertMetadata.run(name, value);
+    }
+
+    db.exec("COMMIT");
+  } catch (error) {
+    if (inTransaction) db.exec("ROLLBACK");
+    throw error;
+  }
+
+  return summary;
+}
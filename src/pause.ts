@@ -0,0 +1,49 @@
+/**
+ * Pause and resume a running download.
+ * While paused, no new tiles are requested; downloads already in flight complete normally.
+ */
+export class PauseController {
+  private isPaused = false;
+  private resumeListeners = new Set<() => void>();
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    for (const listener of this.resumeListeners) {
+      listener();
+    }
+    this.resumeListeners.clear();
+  }
+
+  /**
+   * Resolve once the download is resumed, reject if the signal is aborted first
+   */
+  whenResumed(signal?: AbortSignal): Promise<void> {
+    if (!this.isPaused) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.resumeListeners.delete(onResume);
+        reject(signal?.reason);
+      };
+      const onResume = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.resumeListeners.add(onResume);
+    });
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, test, expect } from "bun:test";
+import {
+  getPMTilesTile,
+  readPMTilesHeader,
+  readPMTilesMetadata,
+  tileIdToZxy,
+  writePMTiles,
+  zxyToTileId,
+  PMTilesCompression,
+  PMTilesTileType,
+} from "./pmtiles";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+const config: FetchTilesConfig = {
+  url: "http://localhost/{z}/{x}/{y}.png",
+  bbox: [13.3, 52.5, 13.4, 52.55],
+  minZoom: 11,
+  maxZoom: 12,
+  crs: "EPSG:3857",
+  totalCount: 6,
+  tileRanges: [
+    { zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 671, count: 2 },
+    { zoom: 12, minX: 2199, maxX: 2200, minY: 1342, maxY: 1343, count: 4 },
+  ],
+};
+
+function createTile(z: number, x: number, y: number, content: string, type = "image/png"): FetchedTile {
+  return {
+    url: `http://localhost/${z}/${x}/${y}.png`,
+    x,
+    y,
+    z,
+    blob: new Blob([content], { type }),
+  };
+}
+
+async function* generateTiles(tiles: FetchedTile[]): AsyncGenerator<FetchedTile> {
+  yield* tiles;
+}
+
+describe("zxyToTileId", () => {
+  test("orders tiles along the Hilbert curve", () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect(zxyToTileId(1, 0, 0)).toBe(1);
+    expect(zxyToTileId(1, 0, 1)).toBe(2);
+    expect(zxyToTileId(1, 1, 1)).toBe(3);
+    expect(zxyToTileId(1, 1, 0)).toBe(4);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+  });
+
+  test("handles high zoom levels", () => {
+    expect(zxyToTileId(20, 0, 0)).toBe(366503875925);
+  });
+
+  test("throws for tiles outside of the grid", () => {
+    expect(() => zxyToTileId(1, 2, 0)).toThrow("outside");
+    expect(() => zxyToTileId(27, 0, 0)).toThrow("maximum");
+  });
+});
+
+describe("tileIdToZxy", () => {
+  test("inverts zxyToTileId", () => {
+    for (const [z, x, y] of [
+      [0, 0, 0],
+      [1, 1, 0],
+      [11, 1099, 671],
+      [18, 140_000, 85_000],
+      [20, 1_000_000, 3],
+    ] as const) {
+      expect(tileIdToZxy(zxyToTileId(z, x, y))).toEqual([z, x, y]);
+    }
+  });
+});
+
+describe("writePMTiles", () => {
+  test("round-trips tiles", async () => {
+    const tiles = [
+      createTile(12, 2199, 1343, "c"),
+      createTile(11, 1099, 671, "a"),
+      createTile(11, 1100, 671, "b"),
+    ];
+    const archive = await writePMTiles(generateTiles(tiles), config);
+
+    for (const tile of tiles) {
+      const data = await getPMTilesTile(archive, tile.z, tile.x, tile.y);
+      expect(await data?.text()).toBe(await tile.blob.text());
+    }
+    expect(await getPMTilesTile(archive, 11, 1101, 671)).toBeUndefined();
+  });
+
+  test("populates the header", async () => {
+    const archive = await writePMTiles(generateTiles([createTile(11, 1099, 671, "a")]), config);
+    const header = await readPMTilesHeader(archive);
+
+    expect(header.tileType).toBe(PMTilesTileType.Png);
+    expect(header.tileCompression).toBe(PMTilesCompression.None);
+    expect(header.internalCompression).toBe(PMTilesCompression.Gzip);
+    expect(header.clustered).toBe(true);
+    expect(header.minZoom).toBe(11);
+    expect(header.maxZoom).toBe(12);
+    expect([header.minLon, header.minLat, header.maxLon, header.maxLat]).toEqual(config.bbox);
+    expect(header.centerLon).toBeCloseTo(13.35);
+    expect(header.centerLat).toBeCloseTo(52.525);
+    expect(header.rootDirectoryOffset).toBe(127);
+
+    const metadata = await readPMTilesMetadata(archive);
+    expect(metadata.format).toBe("png");
+    expect(metadata.minzoom).toBe(11);
+  });
+
+  test("names sources without a URL template", async () => {
+    const { url: _url, ...source } = config;
+    const archive = await writePMTiles(generateTiles([createTile(11, 1099, 671, "a")]), {
+      ...source,
+      tileUrlFunction: (z, x, y) => `http://localhost/${z}/${x}/${y}.png`,
+    });
+
+    expect((await readPMTilesMetadata(archive)).name).toBe("tiles");
+  });
+
+  test("centers bboxes crossing the antimeridian on it", async () => {
+    const tiles = generateTiles([createTile(11, 1099, 671, "a")]);
+    const archive = await writePMTiles(tiles, { ...config, bbox: [170, -20, -170, 20] });
+    const header = await readPMTilesHeader(archive);
+
+    expect(header.centerLon).toBeCloseTo(180);
+    expect(header.centerLat).toBeCloseTo(0);
+  });
+
+  test("detects vector tiles and their compression", async () => {
+    const gzipped = new Uint8Array([0x1f, 0x8b, 0x08, 0x00]);
+    const tile: FetchedTile = {
+      url: "http://localhost/11/1099/671.pbf",
+      x: 1099,
+      y: 671,
+      z: 11,
+      blob: new Blob([gzipped], { type: "application/x-protobuf" }),
+    };
+    const header = await readPMTilesHeader(await writePMTiles(generateTiles([tile]), config));
+
+    expect(header.tileType).toBe(PMTilesTileType.Mvt);
+    expect(header.tileCompression).toBe(PMTilesCompression.Gzip);
+  });
+
+  test("deduplicates identical tiles with run-length entries", async () => {
+    // Tile IDs 1 to 4 are the whole zoom level 1
+    const tiles = [
+      createTile(1, 0, 0, "ocean"),
+      createTile(1, 0, 1, "ocean"),
+      createTile(1, 1, 1, "land"),
+      createTile(1, 1, 0, "ocean"),
+    ];
+    const archive = await writePMTiles(generateTiles(tiles), { ...config, minZoom: 1, maxZoom: 1 });
+    const header = await readPMTilesHeader(archive);
+
+    expect(header.numAddressedTiles).toBe(4);
+    expect(header.numTileEntries).toBe(3);
+    expect(header.numTileContents).toBe(2);
+    expect(header.tileDataLength).toBe("ocean".length + "land".length);
+    expect(await (await getPMTilesTile(archive, 1, 1, 0))?.text()).toBe("ocean");
+    expect(await (await getPMTilesTile(archive, 1, 1, 1))?.text()).toBe("land");
+  });
+
+  test("uses leaf directories for many tiles", async () => {
+    const tiles: FetchedTile[] = [];
+    for (let x = 0; x < 136; x++) {
+      for (let y = 0; y < 128; y++) {
+        tiles.push(createTile(8, x, y, `${x}/${y}`));
+      }
+    }
+    const archive = await writePMTiles(generateTiles(tiles), config);
+    const header = await readPMTilesHeader(archive);
+
+    expect(header.numTileEntries).toBe(tiles.length);
+    expect(header.leafDirectoryLength).toBeGreaterThan(0);
+    expect(header.rootDirectoryLength).toBeLessThanOrEqual(16384 - 127);
+    for (const [x, y] of [[0, 0], [77, 3], [135, 127]] as const) {
+      expect(await (await getPMTilesTile(archive, 8, x, y))?.text()).toBe(`${x}/${y}`);
+    }
+  });
+});
@@ -0,0 +1,582 @@
+import { getBBoxCenter } from "./crs";
+import { getTileFormat, hashTileData } from "./utils";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+const HEADER_LENGTH = 127;
+/** The header and the root directory must fit into the first 16 KiB */
+const ROOT_DIRECTORY_MAX_LENGTH = 16384 - HEADER_LENGTH;
+
+export enum PMTilesCompression {
+  Unknown = 0,
+  None = 1,
+  Gzip = 2,
+  Brotli = 3,
+  Zstd = 4,
+}
+
+export enum PMTilesTileType {
+  Unknown = 0,
+  Mvt = 1,
+  Png = 2,
+  Jpeg = 3,
+  Webp = 4,
+  Avif = 5,
+}
+
+export interface PMTilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  leafDirectoryLength: number;
+  tileDataOffset: number;
+  tileDataLength: number;
+  numAddressedTiles: number;
+  numTileEntries: number;
+  numTileContents: number;
+  clustered: boolean;
+  internalCompression: PMTilesCompression;
+  tileCompression: PMTilesCompression;
+  tileType: PMTilesTileType;
+  minZoom: number;
+  maxZoom: number;
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+  centerZoom: number;
+  centerLon: number;
+  centerLat: number;
+}
+
+/**
+ * Directory entry. A run length of 0 points to a leaf directory.
+ */
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+export interface PMTilesOptions {
+  /** Stored as `name` in the JSON metadata (default: the tile URL template, "tiles" without one) */
+  name?: string;
+  description?: string;
+  attribution?: string;
+}
+
+const TILE_TYPES: Record<string, PMTilesTileType> = {
+  pbf: PMTilesTileType.Mvt,
+  png: PMTilesTileType.Png,
+  jpg: PMTilesTileType.Jpeg,
+  webp: PMTilesTileType.Webp,
+  avif: PMTilesTileType.Avif,
+};
+
+/**
+ * Convert tile coordinates to the PMTiles tile ID:
+ * the position on the Hilbert curve of the zoom level,
+ * offset by the number of tiles of all lower zoom levels
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) {
+    throw new Error(`Zoom level ${z} exceeds the maximum of 26`);
+  }
+  const n = Math.pow(2, z);
+  if (x < 0 || y < 0 || x >= n || y >= n) {
+    throw new Error(`Tile ${z}/${x}/${y} is outside of the tile grid`);
+  }
+
+  // Tiles of all lower zoom levels: (4^z - 1) / 3
+  const accumulated = (Math.pow(4, z) - 1) / 3;
+  let d = 0;
+
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    [x, y] = rotate(s, x, y, rx, ry);
+  }
+
+  return accumulated + d;
+}
+
+/**
+ * Convert a PMTiles tile ID back to tile coordinates
+ */
+export function tileIdToZxy(tileId: number): [number, number, number] {
+  let accumulated = 0;
+
+  for (let z = 0; z <= 26; z++) {
+    const tilesAtZoom = Math.pow(4, z);
+    if (tileId < accumulated + tilesAtZoom) {
+      const n = Math.pow(2, z);
+      let t = tileId - accumulated;
+      let x = 0;
+      let y = 0;
+
+      for (let s = 1; s < n; s *= 2) {
+        const rx = 1 & (t / 2);
+        const ry = 1 & (t ^ rx);
+        [x, y] = rotate(s, x, y, rx, ry);
+        x += s * rx;
+        y += s * ry;
+        t = Math.floor(t / 4);
+      }
+
+      return [z, x, y];
+    }
+    accumulated += tilesAtZoom;
+  }
+
+  throw new Error(`Tile ID ${tileId} exceeds the maximum zoom level of 26`);
+}
+
+function rotate(
+  n: number,
+  x: number,
+  y: number,
+  rx: number,
+  ry: number
+): [number, number] {
+  if (ry === 0) {
+    if (rx === 1) {
+      x = n - 1 - x;
+      y = n - 1 - y;
+    }
+    return [y, x];
+  }
+  return [x, y];
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  // Numbers beyond 32 bits don't work with bitwise operators
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
+
+function readVarint(bytes: Uint8Array, position: { offset: number }): number {
+  let value = 0;
+  let multiplier = 1;
+
+  for (;;) {
+    const byte = bytes[position.offset++];
+    if (byte === undefined) {
+      throw new Error("Unexpected end of varint");
+    }
+    value += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) return value;
+    multiplier *= 0x80;
+  }
+}
+
+async function transformBytes(
+  data: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function gzip(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return transformBytes(data, new CompressionStream("gzip"));
+}
+
+function gunzip(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return transformBytes(data, new DecompressionStream("gzip"));
+}
+
+/**
+ * Serialize and compress a directory: the entry count followed by columns of
+ * tile ID deltas, run lengths, lengths and offsets
+ */
+function serializeDirectory(entries: DirectoryEntry[]): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes: number[] = [];
+  writeVarint(bytes, entries.length);
+
+  let lastTileId = 0;
+  for (const entry of entries) {
+    writeVarint(bytes, entry.tileId - lastTileId);
+    lastTileId = entry.tileId;
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.runLength);
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.length);
+  }
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    // 0 means the data directly follows the previous entry
+    if (previous && entry.offset === previous.offset + previous.length) {
+      writeVarint(bytes, 0);
+    } else {
+      writeVarint(bytes, entry.offset + 1);
+    }
+  });
+
+  return gzip(new Uint8Array(bytes));
+}
+
+async function deserializeDirectory(data: Uint8Array<ArrayBuffer>): Promise<DirectoryEntry[]> {
+  const bytes = await gunzip(data);
+  const position = { offset: 0 };
+  const count = readVarint(bytes, position);
+  const entries: DirectoryEntry[] = [];
+
+  let lastTileId = 0;
+  for (let i = 0; i < count; i++) {
+    lastTileId += readVarint(bytes, position);
+    entries.push({ tileId: lastTileId, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const entry of entries) {
+    entry.runLength = readVarint(bytes, position);
+  }
+  for (const entry of entries) {
+    entry.length = readVarint(bytes, position);
+  }
+  entries.forEach((entry, i) => {
+    const value = readVarint(bytes, position);
+    const previous = entries[i - 1];
+    entry.offset = value === 0 && previous ? previous.offset + previous.length : value - 1;
+  });
+
+  return entries;
+}
+
+/**
+ * Build the root directory, splitting the entries into leaf directories
+ * if the root doesn't fit into the first 16 KiB of the archive
+ */
+async function buildDirectories(entries: DirectoryEntry[]): Promise<{
+  rootDirectory: Uint8Array<ArrayBuffer>;
+  leafDirectories: Uint8Array<ArrayBuffer>;
+}> {
+  if (entries.length < 16384) {
+    const rootDirectory = await serializeDirectory(entries);
+    if (rootDirectory.length <= ROOT_DIRECTORY_MAX_LENGTH) {
+      return { rootDirectory, leafDirectories: new Uint8Array() };
+    }
+  }
+
+  let leafSize = Math.max(4096, Math.ceil(entries.length / 3500));
+  for (;;) {
+    const rootEntries: DirectoryEntry[] = [];
+    const leaves: Uint8Array<ArrayBuffer>[] = [];
+    let leavesLength = 0;
+
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leafEntries = entries.slice(i, i + leafSize);
+      const leaf = await serializeDirectory(leafEntries);
+      rootEntries.push({
+        tileId: (leafEntries[0] as DirectoryEntry).tileId,
+        offset: leavesLength,
+        length: leaf.length,
+        runLength: 0,
+      });
+      leaves.push(leaf);
+      leavesLength += leaf.length;
+    }
+
+    const rootDirectory = await serializeDirectory(rootEntries);
+    if (rootDirectory.length <= ROOT_DIRECTORY_MAX_LENGTH) {
+      const leafDirectories = new Uint8Array(leavesLength);
+      let offset = 0;
+      for (const leaf of leaves) {
+        leafDirectories.set(leaf, offset);
+        offset += leaf.length;
+      }
+      return { rootDirectory, leafDirectories };
+    }
+    leafSize = Math.ceil(leafSize * 1.2);
+  }
+}
+
+function serializeHeader(header: PMTilesHeader): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(HEADER_LENGTH);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(new TextEncoder().encode("PMTiles"), 0);
+  view.setUint8(7, 3);
+  const offsets = [
+    header.rootDirectoryOffset,
+    header.rootDirectoryLength,
+    header.metadataOffset,
+    header.metadataLength,
+    header.leafDirectoryOffset,
+    header.leafDirectoryLength,
+    header.tileDataOffset,
+    header.tileDataLength,
+    header.numAddressedTiles,
+    header.numTileEntries,
+    header.numTileContents,
+  ];
+  offsets.forEach((value, i) => view.setBigUint64(8 + i * 8, BigInt(value), true));
+
+  view.setUint8(96, header.clustered ? 1 : 0);
+  view.setUint8(97, header.internalCompression);
+  view.setUint8(98, header.tileCompression);
+  view.setUint8(99, header.tileType);
+  view.setUint8(100, header.minZoom);
+  view.setUint8(101, header.maxZoom);
+  view.setInt32(102, Math.round(header.minLon * 1e7), true);
+  view.setInt32(106, Math.round(header.minLat * 1e7), true);
+  view.setInt32(110, Math.round(header.maxLon * 1e7), true);
+  view.setInt32(114, Math.round(header.maxLat * 1e7), true);
+  view.setUint8(118, header.centerZoom);
+  view.setInt32(119, Math.round(header.centerLon * 1e7), true);
+  view.setInt32(123, Math.round(header.centerLat * 1e7), true);
+
+  return bytes;
+}
+
+/**
+ * Read the header of a PMTiles v3 archive
+ */
+export async function readPMTilesHeader(archive: Blob): Promise<PMTilesHeader> {
+  const bytes = new Uint8Array(await archive.slice(0, HEADER_LENGTH).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  if (new TextDecoder().decode(bytes.subarray(0, 7)) !== "PMTiles") {
+    throw new Error("Not a PMTiles archive");
+  }
+  if (bytes[7] !== 3) {
+    throw new Error(`Unsupported PMTiles version ${bytes[7]}`);
+  }
+
+  const readUint64 = (offset: number) => Number(view.getBigUint64(offset, true));
+
+  return {
+    rootDirectoryOffset: readUint64(8),
+    rootDirectoryLength: readUint64(16),
+    metadataOffset: readUint64(24),
+    metadataLength: readUint64(32),
+    leafDirectoryOffset: readUint64(40),
+    leafDirectoryLength: readUint64(48),
+    tileDataOffset: readUint64(56),
+    tileDataLength: readUint64(64),
+    numAddressedTiles: readUint64(72),
+    numTileEntries: readUint64(80),
+    numTileContents: readUint64(88),
+    clustered: view.getUint8(96) === 1,
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    tileType: view.getUint8(99),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+    minLon: view.getInt32(102, true) / 1e7,
+    minLat: view.getInt32(106, true) / 1e7,
+    maxLon: view.getInt32(110, true) / 1e7,
+    maxLat: view.getInt32(114, true) / 1e7,
+    centerZoom: view.getUint8(118),
+    centerLon: view.getInt32(119, true) / 1e7,
+    centerLat: view.getInt32(123, true) / 1e7,
+  };
+}
+
+/**
+ * Read the JSON metadata of a PMTiles v3 archive
+ */
+export async function readPMTilesMetadata(archive: Blob): Promise<Record<string, unknown>> {
+  const header = await readPMTilesHeader(archive);
+  const data = new Uint8Array(
+    await archive
+      .slice(header.metadataOffset, header.metadataOffset + header.metadataLength)
+      .arrayBuffer()
+  );
+
+  return JSON.parse(new TextDecoder().decode(await gunzip(data)));
+}
+
+/**
+ * Read a single tile from a PMTiles v3 archive
+ *
+ * @returns The tile data or undefined if the archive doesn't contain the tile
+ */
+export async function getPMTilesTile(
+  archive: Blob,
+  z: number,
+  x: number,
+  y: number
+): Promise<Blob | undefined> {
+  const header = await readPMTilesHeader(archive);
+  const tileId = zxyToTileId(z, x, y);
+
+  let directoryOffset = header.rootDirectoryOffset;
+  let directoryLength = header.rootDirectoryLength;
+
+  // The root directory points to at most one level of leaf directories
+  for (let depth = 0; depth <= 2; depth++) {
+    const entries = await deserializeDirectory(
+      new Uint8Array(
+        await archive.slice(directoryOffset, directoryOffset + directoryLength).arrayBuffer()
+      )
+    );
+    const entry = findEntry(entries, tileId);
+    if (!entry) return undefined;
+
+    if (entry.runLength > 0) {
+      const offset = header.tileDataOffset + entry.offset;
+      return archive.slice(offset, offset + entry.length);
+    }
+
+    directoryOffset = header.leafDirectoryOffset + entry.offset;
+    directoryLength = entry.length;
+  }
+
+  throw new Error("Maximum directory depth exceeded");
+}
+
+/**
+ * Find the entry covering the tile ID: the last entry with a smaller or equal
+ * tile ID, if its run includes the tile or if it points to a leaf directory
+ */
+function findEntry(entries: DirectoryEntry[], tileId: number): DirectoryEntry | undefined {
+  let low = 0;
+  let high = entries.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const entry = entries[middle] as DirectoryEntry;
+    if (entry.tileId === tileId) return entry;
+    if (entry.tileId < tileId) {
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const entry = entries[high];
+  if (!entry) return undefined;
+  if (entry.runLength === 0 || tileId - entry.tileId < entry.runLength) {
+    return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Write tiles to a PMTiles v3 archive
+ *
+ * Tile data is clustered in tile ID order and identical tiles are stored once.
+ * Consecutive tile IDs with identical data share a single directory entry.
+ * Directories and metadata are gzip compressed.
+ * The tiles are kept as Blob references until the archive is assembled.
+ *
+ * @param tiles - Tiles to write, e.g. `tiles.fetch()`
+ * @param config - Config the tiles were downloaded with
+ * @returns The archive, e.g. to save with `Bun.write("area.pmtiles", archive)`
+ */
+export async function writePMTiles(
+  tiles: AsyncIterable<FetchedTile>,
+  config: FetchTilesConfig,
+  options: PMTilesOptions = {}
+): Promise<Blob> {
+  const collectedTiles: Array<{ tileId: number; blob: Blob; hash: string }> = [];
+  let format: string | undefined;
+  let tileCompression = PMTilesCompression.None;
+
+  for await (const tile of tiles) {
+    const data = new Uint8Array(await tile.blob.arrayBuffer());
+    if (format === undefined) {
+      format = getTileFormat(tile.blob.type);
+      // Vector tiles may be served gzip compressed without Content-Encoding
+      if (data[0] === 0x1f && data[1] === 0x8b) {
+        tileCompression = PMTilesCompression.Gzip;
+      }
+    }
+
+    collectedTiles.push({
+      tileId: zxyToTileId(tile.z, tile.x, tile.y),
+      blob: tile.blob,
+      hash: await hashTileData(data),
+    });
+  }
+
+  collectedTiles.sort((a, b) => a.tileId - b.tileId);
+
+  // Lay out the tile data in tile ID order, reusing the data of identical tiles
+  const entries: DirectoryEntry[] = [];
+  const tileData: Blob[] = [];
+  const contents = new Map<string, { offset: number; length: number }>();
+  let tileDataLength = 0;
+
+  for (const [i, { tileId, blob, hash }] of collectedTiles.entries()) {
+    // Keep the first of duplicate tiles
+    if (collectedTiles[i - 1]?.tileId === tileId) continue;
+
+    let content = contents.get(hash);
+    if (!content) {
+      content = { offset: tileDataLength, length: blob.size };
+      contents.set(hash, content);
+      tileData.push(blob);
+      tileDataLength += blob.size;
+    }
+
+    const previous = entries[entries.length - 1];
+    if (
+      previous &&
+      previous.offset === content.offset &&
+      previous.tileId + previous.runLength === tileId
+    ) {
+      previous.runLength++;
+    } else {
+      entries.push({ tileId, offset: content.offset, length: content.length, runLength: 1 });
+    }
+  }
+
+  const { rootDirectory, leafDirectories } = await buildDirectories(entries);
+
+  const [minLon, minLat, maxLon, maxLat] = config.bbox;
+  const [centerLon, centerLat] = getBBoxCenter(config.bbox);
+  const metadata = await gzip(
+    new TextEncoder().encode(
+      JSON.stringify({
+        name: options.name ?? (config.url || "tiles"),
+        format,
+        description: options.description,
+        attribution: options.attribution,
+        bounds: config.bbox,
+        minzoom: config.minZoom,
+        maxzoom: config.maxZoom,
+      })
+    )
+  );
+
+  const metadataOffset = HEADER_LENGTH + rootDirectory.length;
+  const leafDirectoryOffset = metadataOffset + metadata.length;
+  const tileDataOffset = leafDirectoryOffset + leafDirectories.length;
+
+  const header = serializeHeader({
+    rootDirectoryOffset: HEADER_LENGTH,
+    rootDirectoryLength: rootDirectory.length,
+    metadataOffset,
+    metadataLength: metadata.length,
+    leafDirectoryOffset,
+    leafDirectoryLength: leafDirectories.length,
+    tileDataOffset,
+    tileDataLength,
+    numAddressedTiles: entries.reduce((count, entry) => count + entry.runLength, 0),
+    numTileEntries: entries.length,
+    numTileContents: contents.size,
+    clustered: true,
+    internalCompression: PMTilesCompression.Gzip,
+    tileCompression,
+    tileType: (format ? TILE_TYPES[format] : undefined) ?? PMTilesTileType.Unknown,
+    minZoom: config.minZoom,
+    maxZoom: config.maxZoom,
+    minLon,
+    minLat,
+    maxLon,
+    maxLat,
+    centerZoom: config.minZoom,
+    centerLon,
+    centerLat,
+  });
+
+  return new Blob([header, rootDirectory, metadata, leafDirectories, ...tileData]);
+}
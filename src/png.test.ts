@@ -0,0 +1,170 @@
+import { describe, test, expect } from "bun:test";
+import { isBlankPNG, isPNG, readPNGHeader } from "./png";
+
+interface TestImage {
+  width: number;
+  height: number;
+  bitDepth?: number;
+  colorType: number;
+  interlaced?: boolean;
+  /** Filter type and bytes of every scanline */
+  rows: [number, number[]][];
+  palette?: number[];
+  transparency?: number[];
+}
+
+function chunk(type: string, data: number[] | Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  new DataView(bytes.buffer).setUint32(0, data.length);
+  bytes.set([...type].map((char) => char.charCodeAt(0)), 4);
+  bytes.set(data, 8);
+  // The CRC is not checked
+  return bytes;
+}
+
+/**
+ * Encode a PNG with the given raw scanlines
+ */
+async function encodePNG(image: TestImage): Promise<Uint8Array<ArrayBuffer>> {
+  const { width, height, bitDepth = 8, colorType, interlaced = false } = image;
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([bitDepth, colorType, 0, 0, interlaced ? 1 : 0], 8);
+
+  const raw = new Uint8Array(image.rows.flatMap(([filter, bytes]) => [filter, ...bytes]));
+  const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...(image.palette ? [chunk("PLTE", image.palette)] : []),
+    ...(image.transparency ? [chunk("tRNS", image.transparency)] : []),
+    chunk("IDAT", compressed.subarray(0, 10)),
+    chunk("IDAT", compressed.subarray(10)),
+    chunk("IEND", []),
+  ];
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+}
+
+describe("readPNGHeader", () => {
+  test("reads the size and format", async () => {
+    const png = await encodePNG({ width: 3, height: 2, colorType: 6, rows: [] });
+
+    expect(isPNG(png)).toBe(true);
+    expect(readPNGHeader(png)).toEqual({
+      width: 3,
+      height: 2,
+      bitDepth: 8,
+      colorType: 6,
+      interlaced: false,
+    });
+    expect(readPNGHeader(new TextEncoder().encode("GIF89a"))).toBeUndefined();
+  });
+});
+
+describe("isBlankPNG", () => {
+  test("detects single-color RGB images", async () => {
+    const png = await encodePNG({
+      width: 2,
+      height: 2,
+      colorType: 2,
+      // Sub and Up filters of the same color
+      rows: [
+        [1, [170, 211, 223, 0, 0, 0]],
+        [2, [0, 0, 0, 0, 0, 0]],
+      ],
+    });
+
+    expect(await isBlankPNG(png)).toBe(true);
+  });
+
+  test("detects images with different colors", async () => {
+    const png = await encodePNG({
+      width: 2,
+      height: 2,
+      colorType: 2,
+      rows: [
+        [0, [170, 211, 223, 170, 211, 223]],
+        [4, [0, 0, 0, 1, 0, 0]],
+      ],
+    });
+
+    expect(await isBlankPNG(png)).toBe(false);
+  });
+
+  test("detects fully transparent images of any color", async () => {
+    const png = await encodePNG({
+      width: 2,
+      height: 1,
+      colorType: 6,
+      rows: [[0, [255, 0, 0, 0, 0, 255, 0, 0]]],
+    });
+
+    expect(await isBlankPNG(png)).toBe(true);
+  });
+
+  test("compares the colors of palette images", async () => {
+    const palette = [255, 0, 0, 255, 0, 0, 0, 255, 0];
+    // 1 bit per pixel, index 0 and 1 are the same color
+    const sameColor = await encodePNG({
+      width: 8,
+      height: 1,
+      bitDepth: 1,
+      colorType: 3,
+      palette,
+      rows: [[0, [0b01010101]]],
+    });
+    const otherColor = await encodePNG({
+      width: 8,
+      height: 1,
+      bitDepth: 1,
+      colorType: 3,
+      palette: [255, 0, 0, 0, 255, 0],
+      rows: [[0, [0b01010101]]],
+    });
+    const transparent = await encodePNG({
+      width: 2,
+      height: 1,
+      colorType: 3,
+      palette,
+      transparency: [0, 0, 0],
+      rows: [[0, [1, 2]]],
+    });
+
+    expect(await isBlankPNG(sameColor)).toBe(true);
+    expect(await isBlankPNG(otherColor)).toBe(false);
+    expect(await isBlankPNG(transparent)).toBe(true);
+  });
+
+  test("reads 16 bit samples", async () => {
+    const image: TestImage = {
+      width: 2,
+      height: 1,
+      bitDepth: 16,
+      colorType: 4,
+      rows: [[0, [1, 0, 255, 255, 1, 1, 255, 255]]],
+    };
+
+    expect(await isBlankPNG(await encodePNG(image))).toBe(false);
+    expect(
+      await isBlankPNG(await encodePNG({ ...image, rows: [[0, [1, 0, 0, 0, 1, 1, 0, 0]]] }))
+    ).toBe(true);
+  });
+
+  test("never treats interlaced or broken images as blank", async () => {
+    const interlaced = await encodePNG({
+      width: 1,
+      height: 1,
+      colorType: 0,
+      interlaced: true,
+      rows: [[0, [0]]],
+    });
+    const truncated = await encodePNG({ width: 2, height: 2, colorType: 0, rows: [[0, [0, 0]]] });
+
+    expect(await isBlankPNG(interlaced)).toBe(false);
+    expect(await isBlankPNG(truncated)).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Channels per color type: gray, RGB, palette, gray + alpha, RGBA */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export interface PNGHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+interface PNGChunks {
+  header: PNGHeader;
+  /** RGBA colors of the palette, alpha from tRNS */
+  palette: number[][];
+  /** Concatenated IDAT chunks */
+  data: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Whether the data starts with the PNG signature
+ */
+export function isPNG(data: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Read the IHDR chunk, undefined if the data is not a PNG
+ */
+export function readPNGHeader(data: Uint8Array): PNGHeader | undefined {
+  if (!isPNG(data) || data.length < 33) return undefined;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const type = String.fromCharCode(...data.subarray(12, 16));
+  if (type !== "IHDR") return undefined;
+
+  return {
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    bitDepth: data[24] as number,
+    colorType: data[25] as number,
+    interlaced: data[28] === 1,
+  };
+}
+
+function readChunks(data: Uint8Array): PNGChunks | undefined {
+  const header = readPNGHeader(data);
+  if (!header) return undefined;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const palette: number[][] = [];
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    // Length, type, data and CRC
+    offset += 12 + length;
+
+    if (type === "PLTE") {
+      for (let i = 0; i + 2 < chunk.length; i += 3) {
+        palette.push([chunk[i] as number, chunk[i + 1] as number, chunk[i + 2] as number, 255]);
+      }
+    } else if (type === "tRNS" && header.colorType === 3) {
+      // The transparent color of gray and RGB images is a single color, it
+      // can't make an image blank that isn't single-colored anyway
+      chunk.forEach((alpha, i) => {
+        const color = palette[i];
+        if (color) color[3] = alpha;
+      });
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const size = idat.reduce((sum, chunk) => sum + chunk.length, 0);
+  const concatenated = new Uint8Array(size);
+  let position = 0;
+  for (const chunk of idat) {
+    concatenated.set(chunk, position);
+    position += chunk.length;
+  }
+
+  return { header, palette, data: concatenated };
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Reverse the filter of a scanline in place, false for unknown filter types
+ */
+function unfilter(
+  filter: number,
+  row: Uint8Array,
+  previous: Uint8Array,
+  bytesPerPixel: number
+): boolean {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? (row[i - bytesPerPixel] as number) : 0;
+    const up = previous[i] as number;
+    const upLeft = i >= bytesPerPixel ? (previous[i - bytesPerPixel] as number) : 0;
+    const value = row[i] as number;
+
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        row[i] = value + left;
+        break;
+      case 2:
+        row[i] = value + up;
+        break;
+      case 3:
+        row[i] = value + ((left + up) >> 1);
+        break;
+      case 4:
+        row[i] = value + paeth(left, up, upLeft);
+        break;
+      default:
+        return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether every pixel of a PNG is fully transparent, or every pixel has the same color
+ *
+ * Decodes the image without dependencies. Interlaced and broken images are never blank.
+ */
+export async function isBlankPNG(data: Uint8Array<ArrayBuffer>): Promise<boolean> {
+  const png = readChunks(data);
+  if (!png || png.header.interlaced) return false;
+
+  const { width, height, bitDepth, colorType } = png.header;
+  const channels = CHANNELS[colorType];
+  if (!channels) return false;
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const rowLength = Math.ceil((width * bitsPerPixel) / 8);
+
+  let pixels: Uint8Array;
+  try {
+    pixels = await inflate(png.data);
+  } catch {
+    return false;
+  }
+  if (pixels.length < height * (rowLength + 1)) return false;
+
+  // Sample i of the pixel at x
+  function readSample(row: Uint8Array, x: number, i: number): number {
+    if (bitDepth < 8) {
+      const bit = x * bitDepth;
+      return ((row[bit >> 3] as number) >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+    }
+    const offset = x * bytesPerPixel + (i * bitDepth) / 8;
+    return bitDepth === 16
+      ? (row[offset] as number) * 256 + (row[offset + 1] as number)
+      : (row[offset] as number);
+  }
+
+  function readColor(row: Uint8Array, x: number): number[] {
+    if (colorType === 3) {
+      return png?.palette[readSample(row, x, 0)] ?? [0, 0, 0, 255];
+    }
+    return Array.from({ length: channels as number }, (_, i) => readSample(row, x, i));
+  }
+
+  function isTransparent(color: number[]): boolean {
+    if (colorType === 3 || colorType === 6) return color[3] === 0;
+    return colorType === 4 && color[1] === 0;
+  }
+
+  let previous = new Uint8Array(rowLength);
+  let row = new Uint8Array(rowLength);
+  let firstColor: number[] | undefined;
+  let uniform = true;
+  let transparent = true;
+
+  for (let y = 0; y < height; y++) {
+    const offset = y * (rowLength + 1);
+    row.set(pixels.subarray(offset + 1, offset + 1 + rowLength));
+    if (!unfilter(pixels[offset] as number, row, previous, bytesPerPixel)) return false;
+
+    for (let x = 0; x < width; x++) {
+      const color = readColor(row, x);
+      firstColor ??= color;
+      uniform &&= color.every((sample, i) => sample === firstColor?.[i]);
+      transparent &&= isTransparent(color);
+      if (!uniform && !transparent) return false;
+    }
+    [previous, row] = [row, previous];
+  }
+
+  return true;
+}
@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import { ProgressTracker, formatDuration, formatProgress } from "./progress";
+import type { TileRange } from "./types";
+
+const tileRanges: TileRange[] = [
+  { zoom: 10, minX: 0, maxX: 1, minY: 0, maxY: 1, count: 4 },
+  { zoom: 11, minX: 0, maxX: 3, minY: 0, maxY: 3, count: 16 },
+];
+
+/**
+ * Tracker with a clock that is advanced by hand
+ */
+function createTracker(windowSize = 5000) {
+  const clock = { time: 0 };
+  const tracker = new ProgressTracker(tileRanges, windowSize, () => clock.time);
+  return { clock, tracker };
+}
+
+describe("ProgressTracker", () => {
+  test("counts tiles per zoom level", () => {
+    const { clock, tracker } = createTracker();
+    clock.time = 1000;
+    tracker.record(10, true, 100);
+    tracker.record(11, true, 200);
+    const progress = tracker.record(11, false);
+
+    expect(progress.completed).toBe(2);
+    expect(progress.failed).toBe(1);
+    expect(progress.total).toBe(20);
+    expect(progress.bytes).toBe(300);
+    expect(progress.zooms).toEqual([
+      { zoom: 10, completed: 1, failed: 0, total: 4 },
+      { zoom: 11, completed: 1, failed: 1, total: 16 },
+    ]);
+  });
+
+  test("calculates throughput and remaining time", () => {
+    const { clock, tracker } = createTracker();
+    for (let i = 1; i <= 4; i++) {
+      clock.time = i * 500;
+      tracker.record(11, true, 1000);
+    }
+
+    // 4 tiles in 2 seconds
+    const progress = tracker.getProgress();
+    expect(progress.tilesPerSecond).toBe(2);
+    expect(progress.bytesPerSecond).toBe(2000);
+    expect(progress.elapsedTime).toBe(2000);
+    // 16 tiles left at 2 tiles per second
+    expect(progress.remainingTime).toBe(8000);
+  });
+
+  test("uses a rolling window for the throughput", () => {
+    const { clock, tracker } = createTracker(1000);
+    clock.time = 100;
+    tracker.record(11, true, 1000);
+    clock.time = 5000;
+    tracker.record(11, true, 1000);
+    tracker.record(11, true, 1000);
+
+    const progress = tracker.getProgress();
+    expect(progress.tilesPerSecond).toBe(2);
+    expect(progress.bytesPerSecond).toBe(2000);
+  });
+
+  test("has no remaining time before the first tile", () => {
+    const { tracker } = createTracker();
+    expect(tracker.getProgress().remainingTime).toBeUndefined();
+  });
+
+  test("counts skipped tiles without throughput", () => {
+    const { clock, tracker } = createTracker();
+    tracker.skip(10, 4);
+    clock.time = 1000;
+
+    const progress = tracker.getProgress();
+    expect(progress.completed).toBe(4);
+    expect(progress.zooms[0]?.completed).toBe(4);
+    expect(progress.tilesPerSecond).toBe(0);
+  });
+});
+
+describe("formatDuration", () => {
+  test("formats seconds, minutes and hours", () => {
+    expect(formatDuration(12_400)).toBe("12s");
+    expect(formatDuration(185_000)).toBe("3m 05s");
+    expect(formatDuration(3_720_000)).toBe("1h 02m");
+  });
+});
+
+describe("formatProgress", () => {
+  test("formats progress with formatBytes", () => {
+    const text = formatProgress({
+      completed: 120,
+      failed: 2,
+      total: 500,
+      bytes: 1572864,
+      tilesPerSecond: 12,
+      bytesPerSecond: 157286.4,
+      elapsedTime: 10_000,
+      remainingTime: 31_000,
+      zooms: [],
+    });
+
+    expect(text).toBe("120/500 tiles (2 failed), 1.50 MB, 12.0 tiles/s, 153.60 KB/s, 31s remaining");
+  });
+
+  test("omits unknown remaining time", () => {
+    const text = formatProgress({
+      completed: 0,
+      failed: 0,
+      total: 10,
+      bytes: 0,
+      tilesPerSecond: 0,
+      bytesPerSecond: 0,
+      elapsedTime: 0,
+      zooms: [],
+    });
+
+    expect(text).toBe("0/10 tiles, 0 Bytes, 0.0 tiles/s, 0 Bytes/s");
+  });
+});
@@ -0,0 +1,125 @@
+import { formatBytes } from "./utils";
+import type { DownloadProgress, TileRange, ZoomProgress } from "./types";
+
+/**
+ * Keeps count of finished tiles and calculates throughput over a rolling window
+ */
+export class ProgressTracker {
+  private readonly startTime: number;
+  private readonly zooms = new Map<number, ZoomProgress>();
+  /** Finish time and size of the tiles within the rolling window */
+  private samples: Array<{ time: number; bytes: number }> = [];
+  private completed = 0;
+  private failed = 0;
+  private bytes = 0;
+  private readonly total: number;
+
+  constructor(
+    tileRanges: TileRange[],
+    private readonly windowSize: number = 5000,
+    private readonly now: () => number = () => performance.now()
+  ) {
+    this.startTime = now();
+    this.total = tileRanges.reduce((total, range) => total + range.count, 0);
+
+    for (const { zoom, count } of tileRanges) {
+      const zoomProgress = this.zooms.get(zoom);
+      if (zoomProgress) {
+        zoomProgress.total += count;
+      } else {
+        this.zooms.set(zoom, { zoom, completed: 0, failed: 0, total: count });
+      }
+    }
+  }
+
+  /**
+   * Count tiles that were completed in an earlier run, they don't add to the throughput
+   */
+  skip(zoom: number, count: number): void {
+    this.completed += count;
+    const zoomProgress = this.zooms.get(zoom);
+    if (zoomProgress) zoomProgress.completed += count;
+  }
+
+  /**
+   * Record a finished tile and return the updated progress
+   */
+  record(zoom: number, ok: boolean, bytes: number = 0): DownloadProgress {
+    const time = this.now();
+    const zoomProgress = this.zooms.get(zoom);
+
+    if (ok) {
+      this.completed++;
+      this.bytes += bytes;
+      if (zoomProgress) zoomProgress.completed++;
+    } else {
+      this.failed++;
+      if (zoomProgress) zoomProgress.failed++;
+    }
+    this.samples.push({ time, bytes });
+
+    return this.getProgress(time);
+  }
+
+  getProgress(time: number = this.now()): DownloadProgress {
+    this.samples = this.samples.filter((sample) => sample.time > time - this.windowSize);
+
+    const elapsedTime = time - this.startTime;
+    const span = Math.min(this.windowSize, elapsedTime) / 1000;
+    const tilesPerSecond = span > 0 ? this.samples.length / span : 0;
+    const bytesPerSecond =
+      span > 0
+        ? this.samples.reduce((bytes, sample) => bytes + sample.bytes, 0) / span
+        : 0;
+
+    const remaining = this.total - this.completed - this.failed;
+    const remainingTime =
+      tilesPerSecond > 0 ? (remaining / tilesPerSecond) * 1000 : undefined;
+
+    return {
+      completed: this.completed,
+      failed: this.failed,
+      total: this.total,
+      bytes: this.bytes,
+      tilesPerSecond,
+      bytesPerSecond,
+      elapsedTime,
+      remainingTime,
+      zooms: [...this.zooms.values()].map((zoomProgress) => ({ ...zoomProgress })),
+    };
+  }
+}
+
+/**
+ * Format a duration in milliseconds (e.g., "1h 02m", "3m 05s", "12s")
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Format progress to a human-readable string
+ * (e.g., "120/500 tiles (2 failed), 1.50 MB, 12.0 tiles/s, 153.60 KB/s, 31s remaining")
+ */
+export function formatProgress(progress: DownloadProgress): string {
+  const parts = [
+    `${progress.completed}/${progress.total} tiles` +
+      (progress.failed > 0 ? ` (${progress.failed} failed)` : ""),
+    formatBytes(progress.bytes),
+    `${progress.tilesPerSecond.toFixed(1)} tiles/s`,
+    `${formatBytes(Math.round(progress.bytesPerSecond))}/s`,
+  ];
+
+  if (progress.remainingTime !== undefined) {
+    parts.push(`${formatDuration(progress.remainingTime)} remaining`);
+  }
+
+  return parts.join(", ");
+}
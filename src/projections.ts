@@ -0,0 +1,96 @@
+import type { CRSDefinition } from "./types";
+
+/**
+ * Definitions of common CRS, taken from epsg.io. Areas of use are in WGS84 [west, south, east, north].
+ */
+export const BUNDLED_CRS_DEFINITIONS: Record<string, CRSDefinition> = {
+  "EPSG:4326": {
+    name: "WGS 84",
+    definition: "+proj=longlat +datum=WGS84 +no_defs +type=crs",
+    bboxWGS84: [-180, -90, 180, 90],
+  },
+  "EPSG:3857": {
+    name: "WGS 84 / Pseudo-Mercator",
+    definition:
+      "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +wktext +no_defs +type=crs",
+    bboxWGS84: [-180, -85.06, 180, 85.06],
+    // Ensure consistency compared to Openlayers
+    extent: [
+      -20037508.342789244, -20037508.342789244, 20037508.342789244, 20037508.342789244,
+    ],
+  },
+  "EPSG:3395": {
+    name: "WGS 84 / World Mercator",
+    definition: "+proj=merc +lon_0=0 +k=1 +x_0=0 +y_0=0 +datum=WGS84 +units=m +no_defs +type=crs",
+    bboxWGS84: [-180, -80, 180, 84],
+  },
+  "EPSG:4258": {
+    name: "ETRS89",
+    definition: "+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs +type=crs",
+    bboxWGS84: [-16.1, 32.88, 40.18, 84.73],
+  },
+  "EPSG:3035": {
+    name: "ETRS89-extended / LAEA Europe",
+    definition:
+      "+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [-35.58, 24.6, 44.83, 84.73],
+  },
+  "EPSG:25832": {
+    name: "ETRS89 / UTM zone 32N",
+    definition:
+      "+proj=utm +zone=32 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [6, 38.76, 12, 84.33],
+  },
+  "EPSG:25833": {
+    name: "ETRS89 / UTM zone 33N",
+    definition:
+      "+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [12, 46.4, 18, 84.42],
+  },
+  "EPSG:2056": {
+    name: "CH1903+ / LV95",
+    definition:
+      "+proj=somerc +lat_0=46.9524055555556 +lon_0=7.43958333333333 +k_0=1 +x_0=2600000 +y_0=1200000 +ellps=bessel +towgs84=674.374,15.056,405.346,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [5.96, 45.82, 10.49, 47.81],
+  },
+  "EPSG:2154": {
+    name: "RGF93 v1 / Lambert-93",
+    definition:
+      "+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [-9.86, 41.15, 10.38, 51.56],
+  },
+  "EPSG:27700": {
+    name: "OSGB36 / British National Grid",
+    definition:
+      "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs +type=crs",
+    bboxWGS84: [-8.82, 49.79, 1.92, 60.94],
+  },
+  "EPSG:28992": {
+    name: "Amersfoort / RD New",
+    definition:
+      "+proj=sterea +lat_0=52.1561605555556 +lon_0=5.38763888888889 +k=0.9999079 +x_0=155000 +y_0=463000 +ellps=bessel +towgs84=565.417,50.3319,465.552,-0.398957,0.343988,-1.8774,4.0725 +units=m +no_defs +type=crs",
+    bboxWGS84: [3.2, 50.75, 7.22, 53.7],
+  },
+  "EPSG:3006": {
+    name: "SWEREF99 TM",
+    definition:
+      "+proj=utm +zone=33 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs +type=crs",
+    bboxWGS84: [10.03, 54.51, 24.17, 69.07],
+  },
+};
+
+/**
+ * Definition of a WGS 84 / UTM zone, EPSG:32601-32660 (north) and EPSG:32701-32760 (south)
+ */
+export function getUTMDefinition(code: number): CRSDefinition | undefined {
+  const zone = code % 100;
+  const south = code - zone === 32700;
+  if ((code - zone !== 32600 && !south) || zone < 1 || zone > 60) return undefined;
+
+  const west = -180 + (zone - 1) * 6;
+  return {
+    name: `WGS 84 / UTM zone ${zone}${south ? "S" : "N"}`,
+    definition: `+proj=utm +zone=${zone}${south ? " +south" : ""} +datum=WGS84 +units=m +no_defs +type=crs`,
+    bboxWGS84: south ? [west, -80, west + 6, 0] : [west, 0, west + 6, 84],
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { DEFAULT_RATE_LIMITS, getHostname, RateLimiter } from "./ratelimit";
+
+describe("RateLimiter", () => {
+  test("matches the most specific host rule", () => {
+    const limiter = new RateLimiter({
+      ...DEFAULT_RATE_LIMITS,
+      "b.tile.openstreetmap.org": { requestsPerSecond: 1 },
+      "*": { requestsPerSecond: 10 },
+    });
+
+    expect(limiter.getLimit("a.tile.openstreetmap.org")?.[0]).toBe("tile.openstreetmap.org");
+    expect(limiter.getLimit("TILE.openstreetmap.org")?.[0]).toBe("tile.openstreetmap.org");
+    expect(limiter.getLimit("b.tile.openstreetmap.org")?.[0]).toBe("b.tile.openstreetmap.org");
+    expect(limiter.getLimit("openstreetmap.org")?.[0]).toBe("*");
+    expect(new RateLimiter({}).getLimit("example.com")).toBeUndefined();
+  });
+
+  test("lets the burst through and spaces the following requests", async () => {
+    let now = 0;
+    const limiter = new RateLimiter({ "example.com": { requestsPerSecond: 50, burst: 2 } }, () => now);
+    const resolved: number[] = [];
+
+    const start = performance.now();
+    const requests = [0, 1, 2, 3].map((i) =>
+      limiter.acquire(`https://example.com/${i}.png`).then(() => resolved.push(i))
+    );
+    await Bun.sleep(5);
+    expect(resolved).toEqual([0, 1]);
+
+    await Promise.all(requests);
+    // Two tokens at 50 per second
+    expect(performance.now() - start).toBeGreaterThanOrEqual(35);
+    expect(resolved).toEqual([0, 1, 2, 3]);
+
+    // The bucket refills over time, up to the burst
+    now = 10_000;
+    const refilled: number[] = [];
+    const laterRequests = [0, 1, 2].map((i) =>
+      limiter.acquire(`https://example.com/${i}.png`).then(() => refilled.push(i))
+    );
+    await Bun.sleep(5);
+    expect(refilled).toEqual([0, 1]);
+    await Promise.all(laterRequests);
+  });
+
+  test("shares the bucket between subdomains of a rule", async () => {
+    const limiter = new RateLimiter({ "example.com": { requestsPerSecond: 20 } });
+    const start = performance.now();
+
+    await limiter.acquire("https://a.example.com/0.png");
+    await limiter.acquire("https://b.example.com/0.png");
+
+    expect(performance.now() - start).toBeGreaterThanOrEqual(40);
+  });
+
+  test("doesn't limit hosts without rule", async () => {
+    const limiter = new RateLimiter({ "example.com": { requestsPerSecond: 1 } });
+    const start = performance.now();
+
+    for (let i = 0; i < 10; i++) {
+      await limiter.acquire("http://localhost/0.png");
+    }
+
+    expect(performance.now() - start).toBeLessThan(50);
+  });
+
+  test("doesn't limit relative URLs outside the browser", async () => {
+    const limiter = new RateLimiter({ "*": { requestsPerSecond: 1 } });
+
+    await limiter.acquire("/tiles/0/0/0.png");
+    await limiter.acquire("/tiles/0/0/1.png");
+    expect(getHostname("/tiles/0/0/0.png")).toBeUndefined();
+  });
+
+  test("resolves relative URLs against the page in the browser", () => {
+    const location = { href: "https://maps.example.com/viewer/" };
+    Object.assign(globalThis, { location });
+    try {
+      expect(getHostname("/tiles/0/0/0.png")).toBe("maps.example.com");
+      expect(getHostname("https://tile.openstreetmap.org/0/0/0.png")).toBe("tile.openstreetmap.org");
+    } finally {
+      Reflect.deleteProperty(globalThis, "location");
+    }
+  });
+
+  test("rejects waiting requests when aborted", async () => {
+    const limiter = new RateLimiter({ "example.com": { requestsPerSecond: 0.1 } });
+    const controller = new AbortController();
+
+    await limiter.acquire("https://example.com/0.png");
+    const waiting = limiter.acquire("https://example.com/1.png", controller.signal);
+    controller.abort(new Error("stopped"));
+
+    await expect(waiting).rejects.toThrow("stopped");
+  });
+});
@@ -0,0 +1,87 @@
+import { sleep } from "./retry";
+import type { RateLimit } from "./types";
+
+/**
+ * Limits for public tile providers with a usage policy
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  // Bulk downloads are not allowed, see https://operations.osmfoundation.org/policies/tiles/
+  "tile.openstreetmap.org": { requestsPerSecond: 2, burst: 2, maxTiles: 1000 },
+};
+
+/**
+ * Host of a tile URL, relative URLs are resolved against the page in the browser
+ *
+ * @returns undefined if the URL can't be parsed, e.g. a relative URL outside the browser
+ */
+export function getHostname(url: string): string | undefined {
+  try {
+    return new URL(url, globalThis.location?.href).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+interface Bucket {
+  /** Tokens left, negative while requests are waiting */
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket rate limiter with one bucket per host rule
+ *
+ * A rule applies to its host and all subdomains, so "tile.openstreetmap.org"
+ * also limits "a.tile.openstreetmap.org". Subdomains of the same rule share
+ * its bucket. The rule "*" applies to hosts without a rule of their own.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(
+    private readonly limits: Record<string, RateLimit> = DEFAULT_RATE_LIMITS,
+    private readonly now: () => number = () => performance.now()
+  ) {}
+
+  /**
+   * Host rule and limit for a host, the most specific rule wins
+   */
+  getLimit(hostname: string): [string, RateLimit] | undefined {
+    const labels = hostname.toLowerCase().split(".");
+    for (let i = 0; i < labels.length; i++) {
+      const rule = labels.slice(i).join(".");
+      const limit = this.limits[rule];
+      if (limit) return [rule, limit];
+    }
+
+    const limit = this.limits["*"];
+    return limit && ["*", limit];
+  }
+
+  /**
+   * Resolve once a request to the URL may be sent, reject if the signal is aborted first
+   */
+  acquire(url: string, signal?: AbortSignal): Promise<void> {
+    // Hosts that can't be determined are not limited
+    const hostname = getHostname(url);
+    const match = hostname !== undefined ? this.getLimit(hostname) : undefined;
+    if (!match) return Promise.resolve();
+
+    const [rule, limit] = match;
+    const { requestsPerSecond, burst = 1 } = limit;
+    const now = this.now();
+    const bucket = this.buckets.get(rule) ?? { tokens: burst, updatedAt: now };
+    this.buckets.set(rule, bucket);
+
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * requestsPerSecond
+    );
+    bucket.updatedAt = now;
+    // Reserve a token, waiting requests leave the bucket negative
+    bucket.tokens -= 1;
+
+    if (bucket.tokens >= 0) return Promise.resolve();
+    return sleep((-bucket.tokens / requestsPerSecond) * 1000, signal);
+  }
+}
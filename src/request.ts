@@ -0,0 +1,46 @@
+import type { RequestOptions } from "./types";
+
+/**
+ * Add query parameters to a URL, keeping the parameters it already has
+ */
+export function appendQuery(url: string, query: Record<string, string> | undefined): string {
+  if (!query || Object.keys(query).length === 0) {
+    return url;
+  }
+
+  const parameters = Object.entries(query)
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join("&");
+  const separator = !url.includes("?") ? "?" : /[?&]$/.test(url) ? "" : "&";
+  return `${url}${separator}${parameters}`;
+}
+
+/**
+ * Share the token refresh between the requests of a download
+ *
+ * Requests that fail at the same time wait for the same refresh, and the
+ * refreshed headers are used for all following requests.
+ */
+export function shareHeaderRefresh(request: RequestOptions): RequestOptions {
+  const { refreshHeaders } = request;
+  if (!refreshHeaders) {
+    return request;
+  }
+
+  const shared: RequestOptions = { ...request };
+  let pendingRefresh: Promise<Record<string, string>> | undefined;
+
+  shared.refreshHeaders = (tile) => {
+    pendingRefresh ??= refreshHeaders(tile)
+      .then((headers) => {
+        shared.headers = { ...shared.headers, ...headers };
+        return headers;
+      })
+      .finally(() => {
+        pendingRefresh = undefined;
+      });
+    return pendingRefresh;
+  };
+
+  return shared;
+}
@@ -0,0 +1,44 @@
+import { describe, test, expect } from "bun:test";
+import { getBackoffDelay, parseRetryAfter } from "./retry";
+
+describe("getBackoffDelay", () => {
+  const options = { baseDelay: 100, maxDelay: 1000 };
+
+  test("doubles the delay with every attempt", () => {
+    const maxRandom = () => 1;
+
+    expect(getBackoffDelay(1, options, maxRandom)).toBe(100);
+    expect(getBackoffDelay(2, options, maxRandom)).toBe(200);
+    expect(getBackoffDelay(3, options, maxRandom)).toBe(400);
+  });
+
+  test("caps the delay at maxDelay", () => {
+    expect(getBackoffDelay(10, options, () => 1)).toBe(1000);
+  });
+
+  test("applies jitter", () => {
+    expect(getBackoffDelay(3, options, () => 0)).toBe(0);
+    expect(getBackoffDelay(3, options, () => 0.5)).toBe(200);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("parses seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120_000);
+  });
+
+  test("parses HTTP dates", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30_000);
+  });
+
+  test("returns 0 for dates in the past", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+  });
+
+  test("handles missing and invalid headers", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
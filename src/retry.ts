@@ -0,0 +1,72 @@
+import type { RetryOptions } from "./types";
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30_000,
+  retryStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Calculate the delay before the next attempt using exponential backoff
+ * with full jitter: a random value between 0 and baseDelay * 2^(attempt - 1),
+ * capped at maxDelay.
+ *
+ * @param attempt - Number of the attempt that just failed (starting at 1)
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, "baseDelay" | "maxDelay">,
+  random: () => number = Math.random
+): number {
+  const exponentialDelay = options.baseDelay * Math.pow(2, attempt - 1);
+  const cappedDelay = Math.min(options.maxDelay, exponentialDelay);
+
+  return Math.round(random() * cappedDelay);
+}
+
+/**
+ * Parse a `Retry-After` header into a delay in milliseconds
+ * The header is either a number of seconds or an HTTP date.
+ *
+ * @returns Delay in milliseconds or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (header === null) return undefined;
+
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Resolve after the given number of milliseconds, reject early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
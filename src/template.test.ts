@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import { fillURLTemplate, getQuadkey, validateURLTemplate } from "./template";
+import { fetchTiles, processTilesConfig } from "./tiles";
+import type { TilesConfig } from "./types";
+import { fakePNG, startMockServer } from "./test-utils";
+
+const baseConfig: Omit<TilesConfig, "url"> = {
+  bbox: [13.3, 52.5, 13.35, 52.52],
+  minZoom: 12,
+  maxZoom: 12,
+  crs: "EPSG:3857",
+};
+
+const TEST_PORT = startMockServer(
+  () => new Response(fakePNG("tile"), { headers: { "Content-Type": "image/png" } })
+);
+
+async function getTileURLs(config: TilesConfig): Promise<string[]> {
+  const urls = [];
+  for await (const tile of fetchTiles(await processTilesConfig(config))) {
+    urls.push(tile.url);
+  }
+  return urls.sort();
+}
+
+describe("getQuadkey", () => {
+  test("matches the Bing Maps tile system", () => {
+    expect(getQuadkey(3, 3, 5)).toBe("213");
+    expect(getQuadkey(1, 1, 0)).toBe("1");
+    expect(getQuadkey(0, 0, 0)).toBe("");
+  });
+});
+
+describe("fillURLTemplate", () => {
+  test("replaces every occurrence and keeps placeholders without value", () => {
+    expect(fillURLTemplate("{z}/{x}/{y}?x={x}&key={key}", { x: "1", y: "2", z: "3" })).toBe(
+      "3/1/2?x=1&key={key}"
+    );
+  });
+});
+
+describe("validateURLTemplate", () => {
+  test("accepts tile placeholders and custom placeholders", () => {
+    expect(() =>
+      validateURLTemplate("https://{s}.example.com/{z}/{q}{r}.png?size={tileSize}&key={apiKey}", {
+        apiKey: "secret",
+      })
+    ).not.toThrow();
+  });
+
+  test("throws for unknown placeholders", () => {
+    expect(() => validateURLTemplate("https://example.com/{z}/{x}/{y}.png?key={apiKey}")).toThrow(
+      "Unknown placeholder {apiKey} in url https://example.com/{z}/{x}/{y}.png?key={apiKey}"
+    );
+  });
+});
+
+describe("URL templates", () => {
+  test("fills in quadkeys, pixel ratio, tile size and custom placeholders", async () => {
+    const urls = await getTileURLs({
+      ...baseConfig,
+      url: `http://localhost:${TEST_PORT}/{style}/{q}{r}.png?ratio={ratio}&size={tileSize}&style={style}`,
+      placeholders: { style: "dark" },
+      pixelRatio: 2,
+    });
+
+    expect(urls).toEqual([
+      `http://localhost:${TEST_PORT}/dark/120210232333@2x.png?ratio=2&size=256&style=dark`,
+    ]);
+  });
+
+  test("uses the tileUrlFunction instead of a template", async () => {
+    const urls = await getTileURLs({
+      ...baseConfig,
+      tileUrlFunction: (z, x, y) => `http://localhost:${TEST_PORT}/tiles?tile=${z}-${x}-${y}`,
+    });
+
+    expect(urls).toEqual([`http://localhost:${TEST_PORT}/tiles?tile=12-2199-1343`]);
+  });
+
+  test("rejects unknown placeholders in processTilesConfig", async () => {
+    await expect(
+      processTilesConfig({ ...baseConfig, url: "https://example.com/{z}/{x}/{y}.png?key={apiKey}" })
+    ).rejects.toThrow("Unknown placeholder {apiKey}");
+  });
+});
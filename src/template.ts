@@ -0,0 +1,58 @@
+/** Placeholders filled in for every tile */
+const TILE_PLACEHOLDERS = [
+  "x",
+  "y",
+  "-y",
+  "z",
+  "s",
+  "q",
+  "r",
+  "ratio",
+  "tileSize",
+  "bbox",
+  "bbox-yx",
+  "width",
+  "height",
+];
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Bing Maps quadkey of a tile, one digit per zoom level
+ */
+export function getQuadkey(z: number, x: number, y: number): string {
+  let quadkey = "";
+  for (let level = z; level > 0; level--) {
+    const mask = 1 << (level - 1);
+    quadkey += ((x & mask ? 1 : 0) + (y & mask ? 2 : 0)).toString();
+  }
+  return quadkey;
+}
+
+/**
+ * Throw if a URL template contains a placeholder that is neither
+ * a tile placeholder nor one of the custom placeholders
+ */
+export function validateURLTemplate(
+  template: string,
+  placeholders: Record<string, string> = {}
+): void {
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!TILE_PLACEHOLDERS.includes(name as string) && !Object.hasOwn(placeholders, name as string)) {
+      throw new Error(`Unknown placeholder {${name}} in url ${template}`);
+    }
+  }
+}
+
+/**
+ * Replace every occurrence of the placeholders, placeholders without value are kept
+ */
+export function fillURLTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => (Object.hasOwn(values, name) ? values[name] : undefined) ?? placeholder
+  );
+}
@@ -0,0 +1,27 @@
+import { afterAll } from "bun:test";
+
+/**
+ * The content between the PNG signature and an IEND chunk, which passes the content validation
+ */
+export function fakePNG(content: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...new TextEncoder().encode(content),
+    0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+  ]);
+}
+
+/**
+ * Start a mock server on a free port for the tests of a file, stopped after them
+ *
+ * @returns The port the server listens on
+ */
+export function startMockServer(
+  fetch: (req: Request) => Response | Promise<Response>
+): number {
+  const server = Bun.serve({ port: 0, fetch });
+  afterAll(() => {
+    server.stop();
+  });
+  return server.port;
+}
@@ -1,20 +1,117 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
-import { processTilesConfig, fetchTiles } from "./tiles";
+import {
+  processTilesConfig,
+  fetchTile,
+  fetchTiles,
+  fetchTileResults,
+  createRetryConfig,
+} from "./tiles";
+import { TileFetchError, TileLimitError } from "./errors";
+import { PauseController } from "./pause";
+import { createCheckpoint } from "./checkpoint";
+import { writeMBTiles } from "./mbtiles";
+import { getPMTilesTile, writePMTiles } from "./pmtiles";
+import { writeZip } from "./zip";
+import { transformExtent } from "./crs";
+import { createTileGrid, getTileExtent, getTileRangeForExtent } from "./tilegrid";
+import OLTileGrid from "ol/tilegrid/TileGrid";
+import { Database } from "bun:sqlite";
+import type {
+  DownloadProgress,
+  Extent,
+  FetchTilesConfig,
+  TileGridOptions,
+  FetchSummary,
+  TileResult,
+} from "./types";
 
 // Mock tile server setup
 let server: ReturnType<typeof Bun.serve> | null = null;
 const TEST_PORT = 3857;
 
+// Number of requests per path, used by the failing routes
+const requestCounts = new Map<string, number>();
+// Paths of slow requests that were cancelled by the client
+const abortedRequests = new Set<string>();
+// Headers and query parameters of the latest request
+let lastRequest: { headers: Headers; search: string } | undefined;
+
+/**
+ * Config for the two tiles of the Berlin test area at zoom 11,
+ * built by hand so it doesn't depend on CRS lookups
+ */
+function createFetchConfig(url: string): FetchTilesConfig {
+  return {
+    url,
+    bbox: [13.3, 52.5, 13.4, 52.55],
+    minZoom: 11,
+    maxZoom: 11,
+    crs: "EPSG:3857",
+    totalCount: 2,
+    tileRanges: [{ zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 671, count: 2 }],
+  };
+}
+
 beforeAll(() => {
   // Start a mock tile server
   server = Bun.serve({
     port: TEST_PORT,
-    fetch(req) {
+    async fetch(req) {
       const url = new URL(req.url);
       const path = url.pathname;
+      const requestCount = (requestCounts.get(path) ?? 0) + 1;
+      requestCounts.set(path, requestCount);
+      lastRequest = { headers: req.headers, search: url.search };
+
+      // Require a fresh token: /auth/...
+      if (path.startsWith("/auth/") && req.headers.get("Authorization") !== "Bearer fresh") {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      // Always fail with the given status: /status/{code}/...
+      const statusMatch = path.match(/^\/status\/(\d+)\//);
+      if (statusMatch) {
+        return new Response("Error", { status: Number(statusMatch[1]) });
+      }
+
+      // Fail the first n requests with 503: /flaky/{n}/...
+      const flakyMatch = path.match(/^\/flaky\/(\d+)\//);
+      if (flakyMatch && requestCount <= Number(flakyMatch[1])) {
+        return new Response("Service Unavailable", { status: 503 });
+      }
+
+      // Reset the connection in the middle of the body of the first n requests: /reset/{n}/...
+      const resetMatch = path.match(/^\/reset\/(\d+)\//);
+      if (resetMatch && requestCount <= Number(resetMatch[1])) {
+        const body = new ReadableStream({
+          async pull(controller) {
+            controller.enqueue(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+            await Bun.sleep(10);
+            controller.error(new Error("Connection reset"));
+          },
+        });
+        return new Response(body, { headers: { "Content-Type": "image/png" } });
+      }
+
+      // Delay the response: /slow/{ms}/...
+      const slowMatch = path.match(/^\/slow\/(\d+)\//);
+      if (slowMatch) {
+        await Bun.sleep(Number(slowMatch[1]));
+        if (req.signal.aborted) {
+          abortedRequests.add(path);
+        }
+      }
+
+      // Fail the first request with 429 and Retry-After: /ratelimited/...
+      if (path.startsWith("/ratelimited/") && requestCount === 1) {
+        return new Response("Too Many Requests", {
+          status: 429,
+          headers: { "Retry-After": "1" },
+        });
+      }
 
       // Parse tile coordinates from URL pattern: /{z}/{x}/{y}.png
-      const match = path.match(/^\/(\d+)\/(\d+)\/(\d+)\.png$/);
+      const match = path.match(/\/(\d+)\/(\d+)\/(\d+)\.png$/);
 
       if (match) {
         // const [, z, x, y] = match;
@@ -99,6 +196,155 @@ describe("processTilesConfig", () => {
 
     expect(config.subdomains).toEqual(["a", "b", "c"]);
   });
+
+  test("splits bounding boxes crossing the antimeridian", async () => {
+    const config = await processTilesConfig({
+      url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+      bbox: [170, -20, -170, 20], // Fiji
+      minZoom: 0,
+      maxZoom: 4,
+      crs: "EPSG:3857",
+    });
+
+    // Both sides share the single tile at zoom 0
+    expect(config.tileRanges.filter((range) => range.zoom === 0)).toEqual([
+      { zoom: 0, minX: 0, maxX: 0, minY: 0, maxY: 0, count: 1 },
+    ]);
+    expect(config.tileRanges.filter((range) => range.zoom === 4)).toEqual([
+      { zoom: 4, minX: 15, maxX: 15, minY: 7, maxY: 8, count: 2 },
+      { zoom: 4, minX: 0, maxX: 0, minY: 7, maxY: 8, count: 2 },
+    ]);
+
+    const tiles: string[] = [];
+    for await (const tile of fetchTiles(config)) {
+      tiles.push(`${tile.z}/${tile.x}/${tile.y}`);
+    }
+
+    expect(tiles).toHaveLength(config.totalCount);
+    expect(new Set(tiles).size).toBe(tiles.length);
+  });
+});
+
+describe("custom tile grids", () => {
+  // Swiss LV95 grid as published by swisstopo
+  const swissGrid: TileGridOptions = {
+    origin: [2420000, 1350000],
+    extent: [2420000, 1030000, 2900000, 1350000],
+    resolutions: [
+      4000, 3750, 3500, 3250, 3000, 2750, 2500, 2250, 2000, 1750, 1500, 1250, 1000, 750, 650,
+      500, 250, 100, 50, 20, 10, 5, 2.5, 2, 1.5, 1, 0.5, 0.25, 0.1,
+    ],
+  };
+  // Bern
+  const bbox: Extent = [7.4, 46.9, 7.5, 47.0];
+
+  test("tile ranges match OL", async () => {
+    await processTilesConfig({ url: "", bbox, minZoom: 0, maxZoom: 0, crs: "EPSG:2056" });
+    const extent = transformExtent(bbox, "EPSG:4326", "EPSG:2056");
+    const grid = createTileGrid(swissGrid, extent, 10, 28);
+    const olGrid = new OLTileGrid(swissGrid);
+
+    for (let zoom = 10; zoom <= 28; zoom++) {
+      const { minX, maxX, minY, maxY } = getTileRangeForExtent(extent, zoom, grid);
+      const olRange = olGrid.getTileRangeForExtentAndZ(extent, zoom);
+
+      expect({ minX, maxX, minY, maxY }).toEqual({
+        minX: olRange.minX,
+        maxX: olRange.maxX,
+        minY: olRange.minY,
+        maxY: olRange.maxY,
+      });
+    }
+  });
+
+  test("supports non-square tiles and origins per zoom level", async () => {
+    const options: TileGridOptions = {
+      origins: [
+        [0, 1000],
+        [100, 900],
+      ],
+      resolutions: [10, 5],
+      tileSize: [20, 10],
+      extent: [0, 0, 1000, 1000],
+    };
+    const grid = createTileGrid(options, [0, 0, 1000, 1000], 0, 1);
+    const olGrid = new OLTileGrid(options);
+    const extent: Extent = [450, 420, 730, 610];
+
+    for (const zoom of [0, 1]) {
+      const { minX, maxX, minY, maxY } = getTileRangeForExtent(extent, zoom, grid);
+      const olRange = olGrid.getTileRangeForExtentAndZ(extent, zoom);
+      expect([minX, maxX, minY, maxY]).toEqual([
+        olRange.minX,
+        olRange.maxX,
+        olRange.minY,
+        olRange.maxY,
+      ]);
+    }
+
+    // 1000 / (10 * 20) columns, 1000 / (10 * 10) rows at zoom 0
+    expect(grid.sizes).toEqual([
+      [5, 10],
+      [9, 18],
+    ]);
+
+    for (const [zoom, x, y] of [
+      [0, 2, 3],
+      [1, 4, 7],
+    ] as const) {
+      expect(getTileExtent(grid, zoom, x, y)).toEqual(olGrid.getTileCoordExtent([zoom, x, y]));
+    }
+  });
+
+  test("uses the matrix height for {-y}", async () => {
+    const config = await processTilesConfig({
+      url: `http://localhost:${TEST_PORT}/{z}/{x}/{-y}.png`,
+      bbox,
+      minZoom: 16,
+      maxZoom: 16,
+      crs: "EPSG:2056",
+      tileGrid: { ...swissGrid, sizes: swissGrid.resolutions.map(() => [100, 80]) },
+    });
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config)) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(config.totalCount);
+    for (const tile of tiles) {
+      expect(tile.url).toEndWith(`/16/${tile.x}/${80 - 1 - tile.y}.png`);
+    }
+  });
+
+  test("has no tile ranges for a bbox outside the grid", async () => {
+    // Western part of Switzerland only
+    const config = await processTilesConfig({
+      url: "",
+      // Chur
+      bbox: [9.5, 46.8, 9.6, 46.9],
+      minZoom: 14,
+      maxZoom: 16,
+      crs: "EPSG:2056",
+      tileGrid: { ...swissGrid, extent: [2420000, 1030000, 2600000, 1350000] },
+    });
+
+    expect(config.tileRanges).toEqual([]);
+    expect(config.totalCount).toBe(0);
+  });
+
+  test("throws for zoom levels without resolution", async () => {
+    await expect(
+      processTilesConfig({
+        url: "",
+        bbox,
+        minZoom: 20,
+        maxZoom: 30,
+        crs: "EPSG:2056",
+        tileGrid: swissGrid,
+      })
+    ).rejects.toThrow("Zoom level 30 not found in the tile grid");
+  });
 });
 
 describe("fetchTiles", () => {
@@ -227,3 +473,568 @@ describe("fetchTiles", () => {
     expect(tiles.every((t) => t.z === 11)).toBe(true);
   });
 });
+
+describe("fetchTile", () => {
+  const tile = { x: 1099, y: 671, z: 11 };
+  const retry = { baseDelay: 1, maxDelay: 1 };
+
+  test("retries retryable status codes", async () => {
+    const url = `http://localhost:${TEST_PORT}/flaky/2/single/11/1099/671.png`;
+    const fetchedTile = await fetchTile({ ...tile, url }, { retry });
+
+    expect(fetchedTile.blob.type).toBe("image/png");
+    expect(requestCounts.get(new URL(url).pathname)).toBe(3);
+  });
+
+  test("throws TileFetchError when attempts are exhausted", async () => {
+    const url = `http://localhost:${TEST_PORT}/flaky/5/exhausted/11/1099/671.png`;
+    const error = await fetchTile({ ...tile, url }, { retry: { ...retry, maxAttempts: 2 } })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect((error as TileFetchError).status).toBe(503);
+    expect((error as TileFetchError).attempts).toBe(2);
+    expect((error as TileFetchError).tile.url).toBe(url);
+  });
+
+  test("doesn't retry other status codes", async () => {
+    const url = `http://localhost:${TEST_PORT}/status/404/11/1099/671.png`;
+    const error = await fetchTile({ ...tile, url }, { retry }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect((error as TileFetchError).status).toBe(404);
+    expect((error as TileFetchError).attempts).toBe(1);
+  });
+
+  test("respects Retry-After header", async () => {
+    const url = `http://localhost:${TEST_PORT}/ratelimited/11/1099/671.png`;
+    const start = performance.now();
+    const fetchedTile = await fetchTile({ ...tile, url }, { retry: { ...retry, maxDelay: 5000 } });
+
+    expect(fetchedTile.blob.type).toBe("image/png");
+    expect(performance.now() - start).toBeGreaterThanOrEqual(900);
+  });
+
+  test("caps the Retry-After delay at maxDelay", async () => {
+    const url = `http://localhost:${TEST_PORT}/ratelimited/capped/11/1099/671.png`;
+    const start = performance.now();
+    const fetchedTile = await fetchTile({ ...tile, url }, { retry: { ...retry, maxDelay: 50 } });
+
+    expect(fetchedTile.blob.type).toBe("image/png");
+    expect(performance.now() - start).toBeLessThan(500);
+  });
+
+  test("sends the headers and query parameters of the request options", async () => {
+    const url = `http://localhost:${TEST_PORT}/headers/11/1099/671.png?style=dark`;
+    const fetchedTile = await fetchTile(
+      { ...tile, url },
+      {
+        retry,
+        request: {
+          headers: { Referer: "https://example.com/", "User-Agent": "tile-tests" },
+          credentials: "include",
+          query: { key: "secret" },
+        },
+      }
+    );
+
+    expect(fetchedTile.url).toBe(url);
+    expect(lastRequest?.headers.get("Referer")).toBe("https://example.com/");
+    expect(lastRequest?.headers.get("User-Agent")).toBe("tile-tests");
+    expect(lastRequest?.search).toBe("?style=dark&key=secret");
+  });
+
+  test("refreshes the token after 401", async () => {
+    const url = `http://localhost:${TEST_PORT}/auth/single/11/1099/671.png`;
+    let refreshCount = 0;
+    const fetchedTile = await fetchTile(
+      { ...tile, url },
+      {
+        retry,
+        request: {
+          headers: { Authorization: "Bearer expired" },
+          refreshHeaders: async () => {
+            refreshCount++;
+            return { Authorization: "Bearer fresh" };
+          },
+        },
+      }
+    );
+
+    expect(fetchedTile.blob.type).toBe("image/png");
+    expect(refreshCount).toBe(1);
+    expect(requestCounts.get(new URL(url).pathname)).toBe(2);
+  });
+
+  test("refreshes the token only once per tile", async () => {
+    const url = `http://localhost:${TEST_PORT}/auth/invalid/11/1099/671.png`;
+    const error = await fetchTile(
+      { ...tile, url },
+      { retry, request: { refreshHeaders: async () => ({ Authorization: "Bearer invalid" }) } }
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect((error as TileFetchError).status).toBe(401);
+    expect(requestCounts.get(new URL(url).pathname)).toBe(2);
+  });
+
+  test("retries network errors", async () => {
+    // Nothing listens on port 1
+    const url = "http://localhost:1/11/1099/671.png";
+    const error = await fetchTile({ ...tile, url }, { retry }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect((error as TileFetchError).status).toBeUndefined();
+    expect((error as TileFetchError).attempts).toBe(3);
+  });
+
+  test("retries errors while reading the body", async () => {
+    const url = `http://localhost:${TEST_PORT}/reset/1/single/11/1099/671.png`;
+    const fetchedTile = await fetchTile({ ...tile, url }, { retry });
+
+    expect(fetchedTile.blob.type).toBe("image/png");
+    expect(requestCounts.get(new URL(url).pathname)).toBe(2);
+
+    const exhaustedUrl = `http://localhost:${TEST_PORT}/reset/5/exhausted/11/1099/671.png`;
+    const error = await fetchTile({ ...tile, url: exhaustedUrl }, { retry })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect((error as TileFetchError).message).toBe(`GET ${exhaustedUrl} failed`);
+    expect((error as TileFetchError).attempts).toBe(3);
+  });
+});
+
+describe("rate limits", () => {
+  test("spaces the requests to a host", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const start = performance.now();
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config, {
+      rateLimits: { localhost: { requestsPerSecond: 20 } },
+    })) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(2);
+    expect(performance.now() - start).toBeGreaterThanOrEqual(40);
+  });
+
+  test("refuses downloads above the tile limit of a host", async () => {
+    const config: FetchTilesConfig = {
+      ...createFetchConfig("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"),
+      subdomains: ["a", "b", "c"],
+      totalCount: 5000,
+      tileRanges: [{ zoom: 11, minX: 1000, maxX: 1099, minY: 600, maxY: 649, count: 5000 }],
+    };
+
+    const error = await fetchTiles(config)
+      .next()
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(TileLimitError);
+    expect(error).toMatchObject({
+      message: "Downloading 5000 tiles from tile.openstreetmap.org exceeds its limit of 1000 tiles",
+      host: "tile.openstreetmap.org",
+      tiles: 5000,
+      maxTiles: 1000,
+    });
+  });
+
+  test("counts the tiles of a tileUrlFunction", async () => {
+    const config: FetchTilesConfig = {
+      ...createFetchConfig(""),
+      url: undefined,
+      tileUrlFunction: (z, x, y) => `https://tile.openstreetmap.org/${z}/${x}/${y}.png`,
+      totalCount: 5000,
+      tileRanges: [{ zoom: 11, minX: 1000, maxX: 1099, minY: 600, maxY: 649, count: 5000 }],
+    };
+
+    await expect(fetchTiles(config).next()).rejects.toThrow(TileLimitError);
+  });
+
+  test("counts the tiles per host", async () => {
+    // One tile from each host
+    const config: FetchTilesConfig = {
+      ...createFetchConfig(`http://{s}:${TEST_PORT}/{z}/{x}/{y}.png`),
+      subdomains: ["localhost", "127.0.0.1"],
+    };
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config, {
+      rateLimits: { localhost: { requestsPerSecond: 1000, maxTiles: 1 } },
+    })) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(2);
+  });
+
+  test("continues above the tile limit with a callback", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const errors: TileLimitError[] = [];
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config, {
+      rateLimits: { localhost: { requestsPerSecond: 1000, maxTiles: 1 } },
+      onTileLimitExceeded: (error) => errors.push(error),
+    })) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(2);
+    expect(errors.map((error) => error.message)).toEqual([
+      "Downloading 2 tiles from localhost exceeds its limit of 1 tiles",
+    ]);
+  });
+});
+
+describe("fetchTiles error handling", () => {
+  test("shares the token refresh between tiles", async () => {
+    let refreshCount = 0;
+    const config: FetchTilesConfig = {
+      ...createFetchConfig(`http://localhost:${TEST_PORT}/auth/shared/{z}/{x}/{y}.png`),
+      request: {
+        headers: { Authorization: "Bearer expired" },
+        refreshHeaders: async () => {
+          refreshCount++;
+          await Bun.sleep(10);
+          return { Authorization: "Bearer fresh" };
+        },
+      },
+    };
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config)) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(2);
+    expect(refreshCount).toBe(1);
+    // The config is not changed by the refresh
+    expect(config.request?.headers).toEqual({ Authorization: "Bearer expired" });
+  });
+
+  test("reports failed tiles and continues", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/status/500/{z}/{x}/{y}.png`);
+    const errors: TileFetchError[] = [];
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config, {
+      retry: { maxAttempts: 1 },
+      onTileError: (error) => errors.push(error),
+    })) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(0);
+    expect(errors).toHaveLength(config.totalCount);
+    expect(errors.map((error) => error.tile.x).sort()).toEqual([1099, 1100]);
+  });
+
+  test("throws the first failure without onTileError", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/status/500/{z}/{x}/{y}.png`);
+
+    await expect(async () => {
+      for await (const _tile of fetchTiles(config, { retry: { maxAttempts: 1 } })) {
+        // consume
+      }
+    }).toThrow(TileFetchError);
+  });
+});
+
+describe("fetchTileResults", () => {
+  test("yields failures with tile, status and cause", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/status/500/{z}/{x}/{y}.png`);
+
+    const results: TileResult[] = [];
+    for await (const result of fetchTileResults(config, { retry: { maxAttempts: 1 } })) {
+      results.push(result);
+    }
+
+    expect(results).toHaveLength(config.totalCount);
+    for (const result of results) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.status).toBe(500);
+        expect(result.tile.url).toBe(
+          `http://localhost:${TEST_PORT}/status/500/11/${result.tile.x}/671.png`
+        );
+        expect(result.tile.z).toBe(11);
+        expect(result.error).toBeInstanceOf(TileFetchError);
+      }
+    }
+  });
+
+  test("yields successes", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+
+    for await (const result of fetchTileResults(config)) {
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.tile.blob.type).toBe("image/png");
+      }
+    }
+  });
+
+  test("yields downloads that finish while the consumer is busy", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const tiles = [];
+
+    for await (const result of fetchTileResults(config, { maxParallelDownloads: 2 })) {
+      tiles.push(result);
+      // Both downloads are done before the next result is requested
+      await Bun.sleep(50);
+    }
+
+    expect(tiles).toHaveLength(2);
+  });
+
+  test("returns a summary of the run", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    let summary: FetchSummary | undefined;
+
+    const results = fetchTileResults(config, { onComplete: (s) => (summary = s) });
+    let next = await results.next();
+    while (!next.done) {
+      next = await results.next();
+    }
+
+    expect(next.value).toEqual({ totalCount: 2, succeeded: 2, skipped: 0, failed: [] });
+    expect(summary).toBe(next.value);
+  });
+
+  test("retries only the failed tiles of a summary", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/flaky/1/summary/{z}/{x}/{y}.png`);
+    let summary: FetchSummary | undefined;
+
+    for await (const _result of fetchTileResults(config, {
+      retry: { maxAttempts: 1 },
+      onComplete: (s) => (summary = s),
+    })) {
+      // consume
+    }
+
+    expect(summary?.succeeded).toBe(0);
+    expect(summary?.failed).toHaveLength(2);
+
+    const retryConfig = createRetryConfig(config, summary!);
+    expect(retryConfig.totalCount).toBe(2);
+    expect(retryConfig.tileRanges.toSorted((a, b) => a.minX - b.minX)).toEqual([
+      { zoom: 11, minX: 1099, maxX: 1099, minY: 671, maxY: 671, count: 1 },
+      { zoom: 11, minX: 1100, maxX: 1100, minY: 671, maxY: 671, count: 1 },
+    ]);
+
+    const tiles = [];
+    for await (const tile of fetchTiles(retryConfig, { retry: { maxAttempts: 1 } })) {
+      tiles.push(tile);
+    }
+    expect(tiles).toHaveLength(2);
+  });
+});
+
+describe("fetchTiles cancellation", () => {
+  test("aborts pending downloads with an AbortSignal", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/slow/200/abort/{z}/{x}/{y}.png`);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(async () => {
+      for await (const _tile of fetchTiles(config, { signal: controller.signal })) {
+        // consume
+      }
+    }).toThrow();
+
+    await Bun.sleep(250);
+    expect(abortedRequests.has("/slow/200/abort/11/1099/671.png")).toBe(true);
+    expect(abortedRequests.has("/slow/200/abort/11/1100/671.png")).toBe(true);
+  });
+
+  test("aborts pending downloads when leaving the loop early", async () => {
+    // Tile x is delayed by x * 100 ms, so only the first tile is done when leaving the loop
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/slow/{x}00/break/{z}/0/{y}.png`);
+    config.tileRanges = [{ zoom: 11, minX: 0, maxX: 3, minY: 671, maxY: 671, count: 4 }];
+    config.totalCount = 4;
+
+    for await (const _tile of fetchTiles(config, { maxParallelDownloads: 3 })) {
+      break;
+    }
+
+    await Bun.sleep(250);
+    expect(abortedRequests.has("/slow/100/break/11/0/671.png")).toBe(true);
+    expect(abortedRequests.has("/slow/200/break/11/0/671.png")).toBe(true);
+    expect(requestCounts.has("/slow/300/break/11/0/671.png")).toBe(false);
+  });
+
+  test("doesn't schedule new tiles while paused", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/pause/{z}/{x}/{y}.png`);
+    const pauseController = new PauseController();
+    pauseController.pause();
+
+    const tiles: number[] = [];
+    const download = (async () => {
+      for await (const tile of fetchTiles(config, { pauseController })) {
+        tiles.push(tile.x);
+      }
+    })();
+
+    await Bun.sleep(50);
+    expect(requestCounts.has("/pause/11/1099/671.png")).toBe(false);
+    expect(tiles).toHaveLength(0);
+
+    pauseController.resume();
+    await download;
+    expect(tiles.sort()).toEqual([1099, 1100]);
+  });
+
+  test("aborts while paused", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const pauseController = new PauseController();
+    const controller = new AbortController();
+    pauseController.pause();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(async () => {
+      for await (const _tile of fetchTiles(config, { pauseController, signal: controller.signal })) {
+        // consume
+      }
+    }).toThrow();
+  });
+});
+
+describe("fetchTiles checkpoint", () => {
+  test("records done and failed tiles", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/flaky/1/checkpoint/{z}/{x}/{y}.png`);
+    config.tileRanges = [{ zoom: 11, minX: 1099, maxX: 1099, minY: 671, maxY: 672, count: 2 }];
+    const checkpoint = createCheckpoint(config);
+
+    // The first request of every tile fails
+    for await (const _result of fetchTileResults(config, { checkpoint, retry: { maxAttempts: 1 } })) {
+      // consume
+    }
+    expect(checkpoint.ranges[0]?.done).toEqual([]);
+    expect(checkpoint.ranges[0]?.failed).toEqual([[0, 1]]);
+
+    // Resuming retries the failed tiles
+    for await (const _result of fetchTileResults(config, { checkpoint, retry: { maxAttempts: 1 } })) {
+      // consume
+    }
+    expect(checkpoint.ranges[0]?.done).toEqual([[0, 1]]);
+    expect(checkpoint.ranges[0]?.failed).toEqual([]);
+  });
+
+  test("skips tiles recorded as done", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/resume/{z}/{x}/{y}.png`);
+    const checkpoint = createCheckpoint(config);
+
+    // Stop after the first tile
+    for await (const _tile of fetchTiles(config, { checkpoint, maxParallelDownloads: 1 })) {
+      break;
+    }
+
+    // The first tile was not recorded because the loop was left before asking for the next one
+    expect(checkpoint.ranges[0]?.done).toEqual([]);
+
+    const tiles = [];
+    // Restore from JSON as after a page reload
+    const restored = JSON.parse(JSON.stringify(checkpoint));
+    for await (const tile of fetchTiles(config, { checkpoint: restored, maxParallelDownloads: 1 })) {
+      tiles.push(tile);
+    }
+    expect(tiles).toHaveLength(2);
+    expect(restored.ranges[0]?.done).toEqual([[0, 1]]);
+
+    // Nothing left to download
+    const remainingTiles = [];
+    for await (const tile of fetchTiles(config, { checkpoint: restored })) {
+      remainingTiles.push(tile);
+    }
+    expect(remainingTiles).toHaveLength(0);
+    expect(requestCounts.get("/resume/11/1099/671.png")).toBe(2);
+    expect(requestCounts.get("/resume/11/1100/671.png")).toBe(1);
+  });
+
+  test("rejects checkpoints of other tile ranges", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const checkpoint = createCheckpoint({
+      ...config,
+      tileRanges: [{ zoom: 12, minX: 0, maxX: 0, minY: 0, maxY: 0, count: 1 }],
+    });
+
+    await expect(async () => {
+      for await (const _tile of fetchTiles(config, { checkpoint })) {
+        // consume
+      }
+    }).toThrow("doesn't match");
+  });
+});
+
+describe("fetchTiles progress", () => {
+  test("reports progress for every tile", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const updates: DownloadProgress[] = [];
+
+    for await (const _tile of fetchTiles(config, { onProgress: (progress) => updates.push(progress) })) {
+      // consume
+    }
+
+    expect(updates).toHaveLength(2);
+    const last = updates[1];
+    expect(last?.completed).toBe(2);
+    expect(last?.failed).toBe(0);
+    expect(last?.total).toBe(config.totalCount);
+    expect(last?.bytes).toBe(140);
+    expect(last?.remainingTime).toBe(0);
+    expect(last?.zooms).toEqual([{ zoom: 11, completed: 2, failed: 0, total: 2 }]);
+  });
+
+  test("counts tiles of a checkpoint as completed", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const checkpoint = createCheckpoint(config);
+    checkpoint.ranges[0]!.done = [[0, 0]];
+    const updates: DownloadProgress[] = [];
+
+    for await (const _tile of fetchTiles(config, {
+      checkpoint,
+      onProgress: (progress) => updates.push(progress),
+    })) {
+      // consume
+    }
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]?.completed).toBe(2);
+    expect(updates[0]?.bytes).toBe(70);
+  });
+});
+
+describe("fetchTiles export", () => {
+  test("streams tiles into MBTiles", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+    const db = new Database(":memory:");
+
+    const summary = await writeMBTiles(db, fetchTiles(config), config, { deduplicate: true });
+
+    expect(summary).toEqual({ tileCount: 2, uniqueTileCount: 1, format: "png" });
+    expect(db.query("SELECT COUNT(*) AS count FROM tiles").get()).toEqual({ count: 2 });
+  });
+
+  test("streams tiles into PMTiles", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+
+    const archive = await writePMTiles(fetchTiles(config), config);
+
+    const tile = await getPMTilesTile(archive, 11, 1100, 671);
+    expect(tile?.size).toBe(70);
+  });
+
+  test("streams tiles into a ZIP archive", async () => {
+    const config = createFetchConfig(`http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`);
+
+    const zip = await writeZip(fetchTiles(config), config);
+
+    const content = await zip.text();
+    expect(content).toContain("11/1099/671.png");
+    expect(content).toContain("11/1100/671.png");
+    expect(content).toContain("metadata.json");
+  });
+});
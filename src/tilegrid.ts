@@ -1,5 +1,5 @@
-import type { Extent, TileRange, XYZTileGrid } from "./types";
-import { transformExtent } from "./crs";
+import type { Extent, TileGridOptions, TileRange, XYZTileGrid } from "./types";
+import { splitAtAntimeridian, transformExtent } from "./crs";
 
 /**
  * Calculate resolutions for XYZ tile grid
@@ -30,6 +30,29 @@ function calculateResolutions(
   return resolutions;
 }
 
+/**
+ * Top-left corner of the grid at a zoom level
+ */
+export function getTileGridOrigin(grid: XYZTileGrid, zoom: number): [number, number] {
+  const [extMinX, _extMinY, _extMaxX, extMaxY] = grid.extent;
+  return grid.origins?.[zoom] ?? [extMinX, extMaxY];
+}
+
+/**
+ * Tile size in pixels as [width, height]
+ */
+export function getTileSize(grid: XYZTileGrid): [number, number] {
+  return typeof grid.tileSize === "number" ? [grid.tileSize, grid.tileSize] : grid.tileSize;
+}
+
+/**
+ * Number of tile columns and rows at a zoom level
+ */
+export function getTileMatrixSize(grid: XYZTileGrid, zoom: number): [number, number] {
+  const tilesAtZoom = Math.pow(2, zoom);
+  return grid.sizes?.[zoom] ?? [tilesAtZoom, tilesAtZoom];
+}
+
 /**
  * Get tile range for an extent at a specific zoom level
  * Works with any projection by using the extent and resolution
@@ -40,38 +63,36 @@ export function getTileRangeForExtent(
   grid: XYZTileGrid
 ): TileRange {
   const [bboxMinX, bboxMinY, bboxMaxX, bboxMaxY] = extent;
-  const [extMinX, _extMinY, _extMaxX, extMaxY] = grid.extent;
-  const tilesAtZoom = Math.pow(2, zoom);
 
   // Get resolution for this zoom level
   const resolution = grid.resolutions[zoom];
-  const tileSize = grid.tileSize;
 
   if (!resolution) {
     throw new Error(`Zoom level ${zoom} not found in "grid.resolutions"`)
   }
 
-  // Origin is at top-left corner: [minX, maxY]
-  const originX = extMinX;
-  const originY = extMaxY;
+  // Origin is at top-left corner
+  const [originX, originY] = getTileGridOrigin(grid, zoom);
+  const [tileWidth, tileHeight] = getTileSize(grid);
+  const [columns, rows] = getTileMatrixSize(grid, zoom);
 
   // Calculate tile indices
   // X increases from left to right
-  const tileMinX = Math.floor((bboxMinX - originX) / (resolution * tileSize));
-  const tileMaxX = Math.floor((bboxMaxX - originX) / (resolution * tileSize));
+  const tileMinX = Math.floor((bboxMinX - originX) / (resolution * tileWidth));
+  const tileMaxX = Math.floor((bboxMaxX - originX) / (resolution * tileWidth));
 
   // Y increases from top to bottom (origin is at maxY, top of extent)
-  const tileMinY = Math.floor((originY - bboxMaxY) / (resolution * tileSize));
-  const tileMaxY = Math.floor((originY - bboxMinY) / (resolution * tileSize));
+  const tileMinY = Math.floor((originY - bboxMaxY) / (resolution * tileHeight));
+  const tileMaxY = Math.floor((originY - bboxMinY) / (resolution * tileHeight));
 
   // Clamp to valid tile range
   const minX = Math.max(0, Math.min(tileMinX, tileMaxX));
-  const maxX = Math.min(tilesAtZoom - 1, Math.max(tileMinX, tileMaxX));
+  const maxX = Math.min(columns - 1, Math.max(tileMinX, tileMaxX));
   const minY = Math.max(0, Math.min(tileMinY, tileMaxY));
-  const maxY = Math.min(tilesAtZoom - 1, Math.max(tileMinY, tileMaxY));
+  const maxY = Math.min(rows - 1, Math.max(tileMinY, tileMaxY));
 
-  // Tile count for extent and zoom level
-  const count = (maxX - minX + 1) * (maxY - minY + 1);
+  // Tile count for extent and zoom level, 0 if the extent is outside the grid
+  const count = minX > maxX || minY > maxY ? 0 : (maxX - minX + 1) * (maxY - minY + 1);
 
   return {
     zoom,
@@ -83,6 +104,24 @@ export function getTileRangeForExtent(
   };
 }
 
+/**
+ * Extent of a tile in the units of the CRS
+ */
+export function getTileExtent(grid: XYZTileGrid, zoom: number, x: number, y: number): Extent {
+  const resolution = grid.resolutions[zoom];
+
+  if (!resolution) {
+    throw new Error(`Zoom level ${zoom} not found in "grid.resolutions"`);
+  }
+
+  const [originX, originY] = getTileGridOrigin(grid, zoom);
+  const [tileWidth, tileHeight] = getTileSize(grid);
+  const minX = originX + x * resolution * tileWidth;
+  const maxY = originY - y * resolution * tileHeight;
+
+  return [minX, maxY - resolution * tileHeight, minX + resolution * tileWidth, maxY];
+}
+
 /**
  * Create an XYZ tile grid
  *
@@ -108,6 +147,60 @@ export function createXYZTileGrid(
   };
 }
 
+/**
+ * Create a tile grid from the grid definition of a tile service
+ *
+ * Without `sizes`, the number of columns and rows per zoom level is derived
+ * from the extent, starting at the origin.
+ *
+ * @param options - Origin(s), resolutions, tile size and matrix sizes
+ * @param extent - Extent of the CRS, used if the options have none
+ * @param minZoom - Minimum zoom level
+ * @param maxZoom - Maximum zoom level, must have a resolution
+ */
+export function createTileGrid(
+  options: TileGridOptions,
+  extent: Extent,
+  minZoom: number,
+  maxZoom: number
+): XYZTileGrid {
+  const { resolutions, origin, origins, tileSize = 256 } = options;
+  const gridExtent = options.extent ?? extent;
+  const [extMinX, extMinY, extMaxX, extMaxY] = gridExtent;
+
+  if (maxZoom >= resolutions.length) {
+    throw new Error(
+      `Zoom level ${maxZoom} not found in the tile grid, it has ${resolutions.length} resolutions`
+    );
+  }
+
+  if (origins && origins.length !== resolutions.length) {
+    throw new Error("The tile grid needs one origin per resolution");
+  }
+
+  const grid: XYZTileGrid = {
+    extent: gridExtent,
+    minZoom,
+    maxZoom,
+    tileSize,
+    resolutions,
+    origins: resolutions.map((_, zoom) => origins?.[zoom] ?? origin ?? [extMinX, extMaxY]),
+  };
+
+  const [tileWidth, tileHeight] = getTileSize(grid);
+  grid.sizes = resolutions.map((resolution, zoom) => {
+    const [originX, originY] = getTileGridOrigin(grid, zoom);
+    return (
+      options.sizes?.[zoom] ?? [
+        Math.ceil((extMaxX - originX) / (resolution * tileWidth)),
+        Math.ceil((originY - extMinY) / (resolution * tileHeight)),
+      ]
+    );
+  });
+
+  return grid;
+}
+
 /**
  * Get tile range for an extent and zoom level, transforming from source CRS if needed
  */
@@ -126,3 +219,36 @@ export function getTileRangeForExtentAndZ(
 
   return getTileRangeForExtent(transformedExtent, zoom, grid);
 }
+
+/**
+ * Get the tile ranges for a WGS84 bbox and zoom level
+ *
+ * A bbox crossing the antimeridian is split into two ranges, one on each side.
+ * At low zoom levels where both sides share tiles, they are combined into one range.
+ * Parts outside the extent of the grid have no range.
+ */
+export function getTileRangesForBBoxAndZ(
+  bbox: Extent,
+  targetCRS: string,
+  zoom: number,
+  grid: XYZTileGrid
+): TileRange[] {
+  const [eastern, western] = splitAtAntimeridian(bbox)
+    .map((part) => getTileRangeForExtentAndZ(part, "EPSG:4326", targetCRS, zoom, grid))
+    .filter((range) => range.count > 0);
+
+  if (!eastern || !western) {
+    return eastern ? [eastern] : [];
+  }
+
+  if (eastern.minX > western.maxX) {
+    return [eastern, western];
+  }
+
+  const minX = Math.min(eastern.minX, western.minX);
+  const maxX = Math.max(eastern.maxX, western.maxX);
+  const minY = Math.min(eastern.minY, western.minY);
+  const maxY = Math.max(eastern.maxY, western.maxY);
+
+  return [{ zoom, minX, maxX, minY, maxY, count: (maxX - minX + 1) * (maxY - minY + 1) }];
+}
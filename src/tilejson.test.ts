@@ -0,0 +1,124 @@
+import { describe, test, expect } from "bun:test";
+import { applyTileJSON, loadTileJSON } from "./tilejson";
+import { fetchTiles, processTilesConfig } from "./tiles";
+import type { TileJSON } from "./types";
+import { fakePNG, startMockServer } from "./test-utils";
+
+const TEST_PORT = startMockServer((req) => {
+  const url = new URL(req.url);
+  requestedURLs.push(url.pathname);
+
+  if (url.pathname === "/tiles.json") {
+    return Response.json(tileJSON);
+  }
+  if (url.pathname === "/missing.json") {
+    return new Response("Not Found", { status: 404 });
+  }
+  return new Response(fakePNG("tile"), { headers: { "Content-Type": "image/png" } });
+});
+
+const requestedURLs: string[] = [];
+
+const tileJSON: TileJSON = {
+  tilejson: "3.0.0",
+  name: "Berlin",
+  tiles: [
+    `http://localhost:${TEST_PORT}/a/{z}/{x}/{y}.png`,
+    `http://localhost:${TEST_PORT}/b/{z}/{x}/{y}.png`,
+  ],
+  minzoom: 2,
+  maxzoom: 11,
+  bounds: [13.0, 52.3, 13.8, 52.7],
+};
+
+describe("loadTileJSON", () => {
+  test("fetches the document from a URL", async () => {
+    expect(await loadTileJSON(`http://localhost:${TEST_PORT}/tiles.json`)).toEqual(tileJSON);
+  });
+
+  test("throws for failed requests and documents without tiles", async () => {
+    await expect(loadTileJSON(new URL(`http://localhost:${TEST_PORT}/missing.json`))).rejects.toThrow(
+      "Failed to fetch TileJSON"
+    );
+    await expect(loadTileJSON({ tilejson: "3.0.0", tiles: [] })).rejects.toThrow(
+      "The TileJSON doesn't contain any tile URLs"
+    );
+  });
+});
+
+describe("applyTileJSON", () => {
+  test("clamps the zoom levels and the bbox", async () => {
+    const config = await applyTileJSON({
+      tileJSON,
+      bbox: [12.5, 52.4, 13.5, 52.6],
+      minZoom: 0,
+      maxZoom: 14,
+      crs: "EPSG:3857",
+    });
+
+    expect(config.minZoom).toBe(2);
+    expect(config.maxZoom).toBe(11);
+    expect(config.bbox).toEqual([13.0, 52.4, 13.5, 52.6]);
+    expect(config.url).toBe(tileJSON.tiles[0]);
+    expect(config.urls).toEqual(tileJSON.tiles);
+  });
+
+  test("uses the bounds without bbox and area", async () => {
+    const config = await applyTileJSON({ tileJSON, minZoom: 5, maxZoom: 5, crs: "EPSG:3857" });
+
+    expect(config.bbox).toEqual([13.0, 52.3, 13.8, 52.7]);
+  });
+
+  test("counts the rows from the bottom for the tms scheme", async () => {
+    const config = await applyTileJSON({
+      tileJSON: { tilejson: "2.2.0", tiles: ["http://localhost/{z}/{x}/{y}.png"], scheme: "tms" },
+      minZoom: 0,
+      maxZoom: 1,
+      crs: "EPSG:3857",
+    });
+
+    expect(config.url).toBe("http://localhost/{z}/{x}/{-y}.png");
+    expect(config.urls).toBeUndefined();
+  });
+
+  test("throws if nothing is left to download", async () => {
+    await expect(
+      applyTileJSON({ tileJSON, bbox: [0, 0, 1, 1], minZoom: 5, maxZoom: 5, crs: "EPSG:3857" })
+    ).rejects.toThrow("The requested area is outside the bounds 13,52.3,13.8,52.7 of the TileJSON");
+    await expect(
+      applyTileJSON({ tileJSON, minZoom: 12, maxZoom: 14, crs: "EPSG:3857" })
+    ).rejects.toThrow("Zoom levels 12-14 are outside the zoom levels 2-11 of the TileJSON");
+  });
+});
+
+describe("processTilesConfig with TileJSON", () => {
+  test("rotates the tile URLs like subdomains", async () => {
+    requestedURLs.length = 0;
+    const config = await processTilesConfig({
+      tileJSON: `http://localhost:${TEST_PORT}/tiles.json`,
+      bbox: [13.3, 52.5, 13.5, 52.55],
+      minZoom: 11,
+      maxZoom: 12,
+      crs: "EPSG:3857",
+    });
+
+    expect(config.maxZoom).toBe(11);
+    expect(config.tileRanges.every((range) => range.zoom === 11)).toBe(true);
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config, { maxParallelDownloads: 1 })) {
+      tiles.push(tile);
+    }
+
+    const tileURLs = requestedURLs.slice(1);
+    expect(tiles).toHaveLength(config.totalCount);
+    expect(tileURLs.filter((url) => url.startsWith("/a/"))).toHaveLength(Math.ceil(tiles.length / 2));
+    expect(tileURLs.filter((url) => url.startsWith("/b/"))).toHaveLength(Math.floor(tiles.length / 2));
+  });
+
+  test("throws without URL, TileJSON and tileUrlFunction", async () => {
+    await expect(
+      processTilesConfig({ bbox: [13.3, 52.5, 13.5, 52.55], minZoom: 11, maxZoom: 12, crs: "EPSG:3857" })
+    ).rejects.toThrow("Either a URL, a TileJSON or a tileUrlFunction is required");
+  });
+});
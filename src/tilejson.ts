@@ -0,0 +1,94 @@
+import { getAreaExtent } from "./area";
+import type { Extent, TileJSON, TilesConfig } from "./types";
+
+/** Bounds assumed by the TileJSON spec if a document has none */
+const DEFAULT_BOUNDS: Extent = [-180, -85.05112877980659, 180, 85.05112877980659];
+
+/**
+ * Fetch a TileJSON document if given as URL, and check that it lists tile URLs
+ */
+export async function loadTileJSON(source: TileJSON | string | URL): Promise<TileJSON> {
+  let tileJSON: TileJSON;
+  if (typeof source === "string" || source instanceof URL) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch TileJSON from ${source}: ${response.status} ${response.statusText}`
+      );
+    }
+    tileJSON = (await response.json()) as TileJSON;
+  } else {
+    tileJSON = source;
+  }
+
+  if (!Array.isArray(tileJSON.tiles) || tileJSON.tiles.length === 0) {
+    throw new Error("The TileJSON doesn't contain any tile URLs");
+  }
+
+  return tileJSON;
+}
+
+function intersectExtents(a: Extent, b: Extent): Extent | undefined {
+  const intersection: Extent = [
+    Math.max(a[0], b[0]),
+    Math.max(a[1], b[1]),
+    Math.min(a[2], b[2]),
+    Math.min(a[3], b[3]),
+  ];
+  return intersection[0] <= intersection[2] && intersection[1] <= intersection[3]
+    ? intersection
+    : undefined;
+}
+
+/**
+ * Take the tile URLs of a TileJSON into the config and clamp the request
+ * to the zoom levels and bounds of the TileJSON
+ *
+ * The tile URLs are used in rotation like subdomains, rows of the "tms"
+ * scheme are counted from the bottom with `{-y}`. Without a bbox or an area,
+ * the bounds of the TileJSON are downloaded.
+ */
+export async function applyTileJSON(
+  config: TilesConfig & { tileJSON: TileJSON | string | URL }
+): Promise<TilesConfig> {
+  const tileJSON = await loadTileJSON(config.tileJSON);
+
+  const urls =
+    tileJSON.scheme === "tms" ? tileJSON.tiles.map((url) => url.replace("{y}", "{-y}")) : tileJSON.tiles;
+
+  const minZoom = Math.max(config.minZoom, tileJSON.minzoom ?? 0);
+  const maxZoom = Math.min(config.maxZoom, tileJSON.maxzoom ?? 30);
+  if (minZoom > maxZoom) {
+    throw new Error(
+      `Zoom levels ${config.minZoom}-${config.maxZoom} are outside the zoom levels ${tileJSON.minzoom ?? 0}-${tileJSON.maxzoom ?? 30} of the TileJSON`
+    );
+  }
+
+  const bounds = tileJSON.bounds ?? DEFAULT_BOUNDS;
+  const requested =
+    config.bbox ?? (config.area ? getAreaExtent(config.area, config.buffer) : undefined);
+
+  let bbox: Extent | undefined;
+  if (!requested) {
+    bbox = bounds;
+  } else if (requested[0] > requested[2] || bounds[0] > bounds[2]) {
+    // Boxes crossing the antimeridian are kept as they are
+    bbox = requested;
+  } else {
+    bbox = intersectExtents(requested, bounds);
+    if (!bbox) {
+      throw new Error(
+        `The requested area is outside the bounds ${bounds.join(",")} of the TileJSON`
+      );
+    }
+  }
+
+  return {
+    ...config,
+    url: urls[0],
+    urls: urls.length > 1 ? urls : undefined,
+    bbox,
+    minZoom,
+    maxZoom,
+  };
+}
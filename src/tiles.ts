@@ -1,151 +1,649 @@
-import { getCRSExtent, containsExtent } from "./crs";
-import { createXYZTileGrid, getTileRangeForExtentAndZ } from "./tilegrid";
+import { getCRSInfo, containsExtent, splitAtAntimeridian } from "./crs";
+import {
+  createTileGrid,
+  createXYZTileGrid,
+  getTileExtent,
+  getTileMatrixSize,
+  getTileRangesForBBoxAndZ,
+  getTileSize,
+} from "./tilegrid";
+import { getAreaExtent, getTileRangesForArea } from "./area";
+import { applyTileJSON } from "./tilejson";
+import { fillURLTemplate, getQuadkey, validateURLTemplate } from "./template";
+import { ByteBudgetError, TileFetchError, TileLimitError, TileValidationError } from "./errors";
+import {
+  countDoneTiles,
+  getTileIndex,
+  isTileDone,
+  markTile,
+  validateCheckpoint,
+} from "./checkpoint";
+import { ProgressTracker } from "./progress";
+import { DEFAULT_RETRY_OPTIONS, getBackoffDelay, parseRetryAfter, sleep } from "./retry";
+import { appendQuery, shareHeaderRefresh } from "./request";
+import { DEFAULT_RATE_LIMITS, getHostname, RateLimiter } from "./ratelimit";
+import { getCacheKey, getConditionalHeaders, isFresh, readCache, writeCache } from "./cache";
+import { isEmptyTile } from "./empty";
+import { validateTile } from "./validate";
+import { formatBytes, hashTileData } from "./utils";
 import type {
   TilesConfig,
   FetchedTile,
   UnfetchedTile,
   TileRange,
   FetchTilesConfig,
+  FetchTileOptions,
+  FetchTilesOptions,
+  EmptyTileOptions,
+  TileValidationOptions,
+  FetchTileResultsOptions,
+  FetchSummary,
+  TileResult,
 } from "./types";
+import { estimateDownload } from "./estimate";
 import partial from "lodash.partial";
 
-export async function processTilesConfig(config: TilesConfig): Promise<FetchTilesConfig> {
-  const { crs, bbox, url, subdomains, maxZoom, minZoom } = config;
+/**
+ * A tile together with its position in the tile ranges of the config
+ */
+interface ScheduledTile {
+  tile: UnfetchedTile;
+  rangeIndex: number;
+  tileIndex: number;
+}
+
+interface ScheduledResult extends ScheduledTile {
+  result: TileResult;
+}
+
+export async function processTilesConfig(tilesConfig: TilesConfig): Promise<FetchTilesConfig> {
+  const config = tilesConfig.tileJSON
+    ? await applyTileJSON({ ...tilesConfig, tileJSON: tilesConfig.tileJSON })
+    : tilesConfig;
+  const { crs, area, buffer = 0, url, urls, subdomains, placeholders, maxZoom, minZoom } = config;
+
+  if (url === undefined && !config.tileUrlFunction) {
+    throw new Error("Either a URL, a TileJSON or a tileUrlFunction is required");
+  }
+
+  const bbox = config.bbox ?? (area ? getAreaExtent(area, buffer) : undefined);
+
+  if (!bbox) {
+    throw new Error("Either a bounding box or an area is required");
+  }
 
-  // Fetch CRS extent from epsg.io
-  const extent = await getCRSExtent(crs);
+  // Look up the CRS extent in the registry
+  const { extent, bboxWGS84 } = await getCRSInfo(crs);
 
-  if (!containsExtent(extent, bbox)) {
+  // Both are WGS84, the bbox must be within the area of use of the CRS
+  if (!splitAtAntimeridian(bbox).every((part) => containsExtent(bboxWGS84, part))) {
     throw new Error(
       `The supplied bounding box exceeds the extent of ${crs}`
     );
   }
 
-  if (url.includes("{s}") && !subdomains) {
+  const templates = [...(url === undefined ? [] : [url]), ...(urls ?? [])];
+  for (const template of templates) {
+    validateURLTemplate(template, placeholders);
+  }
+
+  const subdomainURL = templates.find((template) => template.includes("{s}"));
+  if (subdomainURL && !subdomains) {
     throw new Error(
-      `Missing Subdomains argument for url ${url}`
+      `Missing Subdomains argument for url ${subdomainURL}`
     );
   }
 
-  const tileGrid = createXYZTileGrid(extent, minZoom, maxZoom);
+  const tileGrid = config.tileGrid
+    ? createTileGrid(config.tileGrid, extent, minZoom, maxZoom)
+    : createXYZTileGrid(extent, minZoom, maxZoom);
 
   const tileRanges: TileRange[] = [];
   for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
-    const tileRange = getTileRangeForExtentAndZ(
-      bbox,
-      "EPSG:4326",
-      crs,
-      zoom,
-      tileGrid
-    );
-    tileRanges.push(tileRange);
+    const bboxRanges = getTileRangesForBBoxAndZ(bbox, crs, zoom, tileGrid);
+
+    if (area) {
+      // Only the tiles of the bbox that intersect the area
+      for (const bboxRange of bboxRanges) {
+        tileRanges.push(...getTileRangesForArea(area, buffer, crs, bboxRange, tileGrid));
+      }
+    } else {
+      tileRanges.push(...bboxRanges);
+    }
   }
   const totalCount = tileRanges
     .map((range) => range.count)
-    .reduce((previousCount, currentCount) => previousCount + currentCount);
+    .reduce((previousCount, currentCount) => previousCount + currentCount, 0);
 
   return {
     ...config,
+    bbox,
     totalCount,
     tileRanges,
+    grid: tileGrid,
   };
 }
 
+/**
+ * Mark the tile as empty if empty tiles are detected
+ */
+async function detectEmptyTile(
+  tile: FetchedTile,
+  options: EmptyTileOptions | undefined
+): Promise<FetchedTile> {
+  return options && (await isEmptyTile(tile.blob, options)) ? { ...tile, empty: true } : tile;
+}
+
 export async function fetchTile(
-  unfetchedTile: UnfetchedTile
+  unfetchedTile: UnfetchedTile,
+  options: FetchTileOptions = {}
 ): Promise<FetchedTile> {
-  return fetch(unfetchedTile.url)
-    .then((response) => {
-      if (response.ok) {
-        return response.blob();
-      } else {
-        return Promise.reject(
-          new Error(
-            `GET ${response.url} failed with ${response.status} ${response.statusText}`
-          )
-        );
+  const { signal, request = {}, rateLimiter, cache, version, emptyTiles, validation } = options;
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  let refreshedHeaders: Record<string, string> | undefined;
+
+  const cacheKey = cache ? getCacheKey(cache, unfetchedTile) : "";
+  const cached = cache ? await readCache(cache, cacheKey) : undefined;
+  if (cache && cached && isFresh(cache, cached)) {
+    const { blob, etag, lastModified } = cached;
+    return detectEmptyTile({ ...unfetchedTile, blob, etag, lastModified }, emptyTiles);
+  }
+  // Expired tiles are only downloaded again if they changed
+  const revalidated = cache?.revalidate !== false ? cached : undefined;
+  const conditionalHeaders = getConditionalHeaders(revalidated ?? version ?? {});
+
+  for (let attempt = 1; ; attempt++) {
+    await rateLimiter?.acquire(unfetchedTile.url, signal);
+
+    let response: Response;
+    let blob: Blob | undefined;
+    try {
+      response = await fetch(appendQuery(unfetchedTile.url, request.query), {
+        headers: { ...request.headers, ...refreshedHeaders, ...conditionalHeaders },
+        credentials: request.credentials,
+        signal,
+      });
+      // Reading the body fails like the request if the connection is reset
+      if (response.ok) blob = await response.blob();
+    } catch (cause) {
+      // Cancellation is not a failure of the tile
+      if (signal?.aborted) throw signal.reason;
+
+      if (attempt < retry.maxAttempts) {
+        await sleep(getBackoffDelay(attempt, retry), signal);
+        continue;
       }
-    })
-    .then((blob) => {
-      // Verify it's an image
-      if (!blob.type.startsWith("image/")) {
-        return Promise.reject(new Error("Response is not an image"));
-      } else {
-        return { ...unfetchedTile, blob };
+      throw new TileFetchError(`GET ${unfetchedTile.url} failed`, {
+        tile: unfetchedTile,
+        attempts: attempt,
+        cause,
+      });
+    }
+
+    if (response.status === 304 && cache && revalidated) {
+      await response.body?.cancel();
+      await writeCache(cache, cacheKey, { ...revalidated, storedAt: Date.now() });
+      return detectEmptyTile(
+        {
+          ...unfetchedTile,
+          blob: revalidated.blob,
+          etag: revalidated.etag,
+          lastModified: revalidated.lastModified,
+        },
+        emptyTiles
+      );
+    }
+
+    if (response.status === 304 && version) {
+      await response.body?.cancel();
+      return {
+        ...unfetchedTile,
+        blob: new Blob([]),
+        etag: version.etag,
+        lastModified: version.lastModified,
+        notModified: true,
+      };
+    }
+
+    if (response.ok && blob) {
+      // 204 No Content or an empty body, usually without an image type
+      if (emptyTiles && blob.size === 0) {
+        return { ...unfetchedTile, blob, empty: true };
       }
-    });
+
+      const failure = await validateTile({ ...unfetchedTile, blob }, validation);
+      if (failure) {
+        throw new TileValidationError(failure.message, {
+          tile: unfetchedTile,
+          status: response.status,
+          attempts: attempt,
+          reason: failure.reason,
+        });
+      }
+
+      const etag = response.headers.get("ETag") ?? undefined;
+      const lastModified = response.headers.get("Last-Modified") ?? undefined;
+      if (cache) {
+        await writeCache(cache, cacheKey, { blob, storedAt: Date.now(), etag, lastModified });
+      }
+      return detectEmptyTile({ ...unfetchedTile, blob, etag, lastModified }, emptyTiles);
+    }
+
+    // Send the request again with a new token, errors of the hook end the download
+    if (response.status === 401 && request.refreshHeaders && !refreshedHeaders) {
+      await response.body?.cancel();
+      refreshedHeaders = await request.refreshHeaders(unfetchedTile);
+      continue;
+    }
+
+    if (
+      attempt < retry.maxAttempts &&
+      retry.retryStatusCodes.includes(response.status)
+    ) {
+      const retryAfter = retry.respectRetryAfter
+        ? parseRetryAfter(response.headers.get("Retry-After"))
+        : undefined;
+      // Release the connection before waiting
+      await response.body?.cancel();
+      await sleep(
+        retryAfter !== undefined
+          ? Math.min(retryAfter, retry.maxDelay)
+          : getBackoffDelay(attempt, retry),
+        signal
+      );
+      continue;
+    }
+
+    throw new TileFetchError(
+      `GET ${unfetchedTile.url} failed with ${response.status} ${response.statusText}`,
+      { tile: unfetchedTile, status: response.status, attempts: attempt }
+    );
+  }
 }
 
-export async function* fetchTiles(
+/**
+ * Count the tiles per host rule and fail, or call back, for every rule whose
+ * `maxTiles` they exceed
+ */
+function checkTileLimits(
+  tiles: Iterable<ScheduledTile>,
+  rateLimiter: RateLimiter,
+  action: "error" | ((error: TileLimitError) => void)
+): void {
+  const counts = new Map<string, { tiles: number; maxTiles: number }>();
+
+  for (const { tile } of tiles) {
+    const hostname = getHostname(tile.url);
+    if (hostname === undefined) continue;
+
+    const [rule, limit] = rateLimiter.getLimit(hostname) ?? [];
+    if (rule === undefined || limit?.maxTiles === undefined) continue;
+
+    const count = counts.get(rule) ?? { tiles: 0, maxTiles: limit.maxTiles };
+    count.tiles++;
+    counts.set(rule, count);
+  }
+
+  for (const [host, { tiles, maxTiles }] of counts) {
+    if (tiles <= maxTiles) continue;
+
+    const error = new TileLimitError(
+      `Downloading ${tiles} tiles from ${host} exceeds its limit of ${maxTiles} tiles`,
+      { host, tiles, maxTiles }
+    );
+    if (action === "error") {
+      throw error;
+    }
+    action(error);
+  }
+}
+
+/**
+ * Download all tiles of the config and yield the outcome of every tile,
+ * failed downloads included. The generator returns the summary of the run.
+ *
+ * Aborting `options.signal` cancels all pending requests and throws the abort reason.
+ * Leaving the generator early, e.g. with `break`, cancels pending requests as well.
+ */
+export async function* fetchTileResults(
   config: FetchTilesConfig,
-  options: { maxParallelDownloads: number } = { maxParallelDownloads: 6 }
-): AsyncGenerator<FetchedTile, void, unknown> {
-  const { tileRanges, url: urlTemplate, subdomains } = config;
-  const pendingDownloads = new Set<Promise<FetchedTile>>();
+  options: FetchTileResultsOptions = {}
+): AsyncGenerator<TileResult, FetchSummary, unknown> {
+  const { tileRanges, subdomains, pixelRatio = 1, tileUrlFunction } = config;
+  const urlTemplates = config.urls?.length ? config.urls : [config.url ?? ""];
+  const {
+    maxParallelDownloads = 6,
+    versions,
+    rateLimits,
+    onTileLimitExceeded = "error",
+    maxBytes,
+    onComplete,
+    onProgress,
+    pauseController,
+    checkpoint,
+    signal: externalSignal,
+    ...fetchTileOptions
+  } = options;
+  // Aborted when the generator is left, so pending requests don't outlive it
+  const controller = new AbortController();
+  const signal = externalSignal
+    ? AbortSignal.any([externalSignal, controller.signal])
+    : controller.signal;
+  const pendingDownloads = new Set<Promise<ScheduledResult>>();
+  const summary: FetchSummary = {
+    totalCount: config.totalCount,
+    succeeded: 0,
+    skipped: 0,
+    failed: [],
+  };
+  let downloadedBytes = 0;
+  const emptyTileAction = fetchTileOptions.emptyTiles?.action ?? "skip";
+  // First empty tile of every kind, by hash
+  const emptyTiles = new Map<string, FetchedTile>();
+  const progress = onProgress ? new ProgressTracker(tileRanges) : undefined;
+  const rateLimiter =
+    fetchTileOptions.rateLimiter ?? new RateLimiter({ ...DEFAULT_RATE_LIMITS, ...rateLimits });
+  const request = fetchTileOptions.request ?? config.request;
+  // One token refresh for all requests that fail with 401 at the same time
+  const sharedRequest = request && shareHeaderRefresh(request);
+
+  // Check the images against the tile size of the grid
+  const [tileWidth, tileHeight] = config.grid ? getTileSize(config.grid) : [256, 256];
+  const validation: TileValidationOptions | undefined =
+    fetchTileOptions.validation?.dimensions === true
+      ? {
+          ...fetchTileOptions.validation,
+          dimensions: [tileWidth * pixelRatio, tileHeight * pixelRatio],
+        }
+      : fetchTileOptions.validation;
 
-  function* generateTileURLs(): Generator<UnfetchedTile, void, unknown> {
+  // Number of tile rows at a zoom level, 2^zoom for XYZ grids
+  function getMatrixHeight(zoom: number): number {
+    return config.grid ? getTileMatrixSize(config.grid, zoom)[1] : Math.pow(2, zoom);
+  }
+
+  // Extent and size of the tile for WMS GetMap requests
+  function getTileExtentValues(url: string, x: number, y: number, zoom: number) {
+    if (!/\{(bbox|bbox-yx|width|height)\}/.test(url)) {
+      return {};
+    }
+    if (!config.grid) {
+      throw new Error(`The config has no tile grid to compute the tile extents of ${url}`);
+    }
+
+    const [minX, minY, maxX, maxY] = getTileExtent(config.grid, zoom, x, y);
+    const [width, height] = getTileSize(config.grid);
+    return {
+      bbox: [minX, minY, maxX, maxY].join(","),
+      // Latitude first, e.g. geographic CRS in WMS 1.3.0
+      "bbox-yx": [minY, minX, maxY, maxX].join(","),
+      width: width.toString(),
+      height: height.toString(),
+    };
+  }
+
+  function* generateTileURLs(): Generator<ScheduledTile, void, unknown> {
     let currentSubdomainIndex = 0;
+    let currentURLIndex = 0;
 
-    for (let i = 0; i < tileRanges.length; i++) {
-      const { minX, maxX, minY, maxY, zoom } = tileRanges[i] as TileRange;
+    for (let rangeIndex = 0; rangeIndex < tileRanges.length; rangeIndex++) {
+      const tileRange = tileRanges[rangeIndex] as TileRange;
+      const { minX, maxX, minY, maxY, zoom } = tileRange;
       for (let x = minX; x <= maxX; x++) {
         for (let y = minY; y <= maxY; y++) {
-          let url = urlTemplate
-            .replace("{x}", x.toString())
-            .replace("{y}", y.toString())
-            // TMS has origin at bottom-left, need to invert
-            .replace("{-y}", (Math.pow(2, zoom) - 1 - y).toString())
-            .replace("{z}", zoom.toString())
+          const tileIndex = getTileIndex(tileRange, x, y);
+          if (checkpoint && isTileDone(checkpoint, rangeIndex, tileIndex)) {
+            continue;
+          }
+
+          if (tileUrlFunction) {
+            const url = tileUrlFunction(zoom, x, y);
+            yield { tile: { url, x, y, z: zoom }, rangeIndex, tileIndex };
+            continue;
+          }
+
+          // Rotate the URL templates like the subdomains
+          const urlTemplate = urlTemplates[currentURLIndex] as string;
+          currentURLIndex = (currentURLIndex + 1) % urlTemplates.length;
 
           // Only cycle subdomains if array is not empty
+          let subdomain: string | undefined;
           if (subdomains && subdomains.length > 0) {
             currentSubdomainIndex =
               (currentSubdomainIndex + 1) % subdomains.length;
-            url = url.replace("{s}", subdomains[currentSubdomainIndex] ?? "");
+            subdomain = subdomains[currentSubdomainIndex];
           }
 
-          yield { url, x, y, z: zoom };
+          // Tile values take precedence over custom placeholders of the same name
+          const url = fillURLTemplate(urlTemplate, {
+            ...config.placeholders,
+            x: x.toString(),
+            y: y.toString(),
+            // TMS has origin at bottom-left, need to invert
+            "-y": (getMatrixHeight(zoom) - 1 - y).toString(),
+            z: config.tileGrid?.matrixIds?.[zoom] ?? zoom.toString(),
+            s: subdomain,
+            q: getQuadkey(zoom, x, y),
+            r: pixelRatio > 1 ? `@${pixelRatio}x` : "",
+            ratio: pixelRatio.toString(),
+            tileSize: tileWidth.toString(),
+            ...getTileExtentValues(urlTemplate, x, y, zoom),
+          });
+
+          yield { tile: { url, x, y, z: zoom }, rangeIndex, tileIndex };
+        }
+      }
+    }
+  }
+
+  // Failed downloads resolve to a failure result, so a single tile can't reject the race
+  function download(scheduledTile: ScheduledTile): Promise<ScheduledResult> {
+    const { tile: unfetchedTile } = scheduledTile;
+    return fetchTile(unfetchedTile, {
+      ...fetchTileOptions,
+      request: sharedRequest,
+      rateLimiter,
+      validation,
+      version: versions?.[`${unfetchedTile.z}/${unfetchedTile.x}/${unfetchedTile.y}`],
+      signal,
+    }).then(
+      (tile): ScheduledResult => ({ ...scheduledTile, result: { ok: true, tile } }),
+      (error: unknown): ScheduledResult => {
+        if (!(error instanceof TileFetchError)) throw error;
+        return {
+          ...scheduledTile,
+          result: { ok: false, tile: unfetchedTile, status: error.status, error },
+        };
+      }
+    );
+  }
+
+  // Drop an empty tile, or share the blob of the first empty tile with the same data
+  async function referenceEmptyTile(tile: FetchedTile): Promise<FetchedTile | undefined> {
+    if (emptyTileAction === "skip" || tile.blob.size === 0) return undefined;
+
+    const hash = await hashTileData(new Uint8Array(await tile.blob.arrayBuffer()));
+    const first = emptyTiles.get(hash);
+    if (!first) {
+      emptyTiles.set(hash, tile);
+      return tile;
+    }
+    return { ...tile, blob: first.blob, reference: { z: first.z, x: first.x, y: first.y } };
+  }
+
+  // Yield the next finished download and record it once the consumer is done with it
+  async function* settleNext(): AsyncGenerator<TileResult, void, unknown> {
+    // Remove the download only once it is handed out, a download that finished
+    // while the consumer was busy must stay pending for the next race
+    const [download, { result: downloadResult, rangeIndex, tileIndex }] = await Promise.race(
+      [...pendingDownloads].map((pending) =>
+        pending.then((scheduledResult) => [pending, scheduledResult] as const)
+      )
+    );
+    pendingDownloads.delete(download);
+
+    let result = downloadResult;
+    if (result.ok && result.tile.empty) {
+      const tile = await referenceEmptyTile(result.tile);
+      if (!tile) {
+        summary.skipped++;
+        if (progress && onProgress) {
+          onProgress(progress.record(result.tile.z, true, 0));
+        }
+        if (checkpoint) {
+          markTile(checkpoint, rangeIndex, tileIndex, true);
         }
+        return;
+      }
+      result = { ok: true, tile };
+    }
+
+    // Tiles that share the blob of an earlier tile are stored once
+    if (result.ok && !result.tile.reference && maxBytes !== undefined) {
+      downloadedBytes += result.tile.blob.size;
+      if (downloadedBytes > maxBytes) {
+        throw new ByteBudgetError(
+          `The download exceeds its budget of ${formatBytes(maxBytes)}`,
+          { bytes: downloadedBytes, maxBytes }
+        );
       }
     }
+
+    if (result.ok) {
+      summary.succeeded++;
+    } else {
+      summary.failed.push(result);
+    }
+    if (progress && onProgress) {
+      const bytes = result.ok ? result.tile.blob.size : 0;
+      onProgress(progress.record(result.tile.z, result.ok, bytes));
+    }
+
+    yield result;
+
+    if (checkpoint) {
+      markTile(checkpoint, rangeIndex, tileIndex, result.ok);
+    }
   }
 
-  for (const unfetchedTile of generateTileURLs()) {
-    const tile = fetchTile(unfetchedTile);
-    pendingDownloads.add(tile);
-    tile.then(() => pendingDownloads.delete(tile));
+  try {
+    signal.throwIfAborted();
+    if (checkpoint) {
+      validateCheckpoint(checkpoint, tileRanges);
+      tileRanges.forEach((range, rangeIndex) =>
+        progress?.skip(range.zoom, countDoneTiles(checkpoint, rangeIndex))
+      );
+    }
+    // The tile URLs are generated twice, to count them per host before the download
+    checkTileLimits(generateTileURLs(), rateLimiter, onTileLimitExceeded);
+
+    for (const scheduledTile of generateTileURLs()) {
+      // While paused, hand out the downloads in flight, then wait for resume
+      while (pauseController?.paused) {
+        if (pendingDownloads.size > 0) {
+          yield* settleNext();
+        } else {
+          await pauseController.whenResumed(signal);
+        }
+      }
+
+      const tile = download(scheduledTile);
+      pendingDownloads.add(tile);
+      // Downloads still pending when the generator is left reject with the abort reason
+      tile.catch(() => {});
+
+      while (pendingDownloads.size >= maxParallelDownloads) {
+        yield* settleNext();
+      }
+    }
 
-    while (pendingDownloads.size >= options.maxParallelDownloads) {
-      yield Promise.race(pendingDownloads);
+    while (pendingDownloads.size > 0) {
+      yield* settleNext();
     }
+  } finally {
+    controller.abort();
   }
 
-  while (pendingDownloads.size > 0) {
-    yield Promise.race(pendingDownloads);
+  onComplete?.(summary);
+  return summary;
+}
+
+/**
+ * Download all tiles of the config and yield the fetched tiles.
+ * Failed tiles are passed to `onTileError` if set, otherwise the first failure is thrown.
+ */
+export async function* fetchTiles(
+  config: FetchTilesConfig,
+  options: FetchTilesOptions = {}
+): AsyncGenerator<FetchedTile, void, unknown> {
+  const { onTileError, ...resultOptions } = options;
+
+  for await (const result of fetchTileResults(config, resultOptions)) {
+    if (result.ok) {
+      yield result.tile;
+    } else if (onTileError) {
+      onTileError(result.error);
+    } else {
+      throw result.error;
+    }
   }
 }
 
+/**
+ * Create a config that only contains the failed tiles of a previous run,
+ * so they can be downloaded again
+ */
+export function createRetryConfig(
+  config: FetchTilesConfig,
+  summary: FetchSummary
+): FetchTilesConfig {
+  const tileRanges: TileRange[] = summary.failed.map(({ tile }) => ({
+    zoom: tile.z,
+    minX: tile.x,
+    maxX: tile.x,
+    minY: tile.y,
+    maxY: tile.y,
+    count: 1,
+  }));
+
+  return {
+    ...config,
+    totalCount: tileRanges.length,
+    tileRanges,
+  };
+}
+
 export default class Tiles implements FetchTilesConfig {
   readonly url;
+  readonly urls;
   readonly subdomains;
   readonly bbox;
+  readonly area;
+  readonly buffer;
   readonly minZoom;
   readonly maxZoom;
   readonly crs;
   readonly totalCount;
   readonly tileRanges;
   fetch;
+  fetchResults;
+  estimate;
 
   private constructor(fetchConfig: FetchTilesConfig) {
     this.url = fetchConfig.url;
+    this.urls = fetchConfig.urls;
     this.subdomains = fetchConfig.subdomains;
     this.bbox = fetchConfig.bbox;
+    this.area = fetchConfig.area;
+    this.buffer = fetchConfig.buffer;
     this.minZoom = fetchConfig.minZoom;
     this.maxZoom = fetchConfig.maxZoom;
     this.crs = fetchConfig.crs;
     this.totalCount = fetchConfig.totalCount;
     this.tileRanges = fetchConfig.tileRanges;
     this.fetch = partial(fetchTiles, fetchConfig);
+    this.fetchResults = partial(fetchTileResults, fetchConfig);
+    this.estimate = partial(estimateDownload, fetchConfig);
   }
 
   /**
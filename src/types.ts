@@ -1,3 +1,7 @@
+import type { TileFetchError, TileLimitError } from "./errors";
+import type { PauseController } from "./pause";
+import type { RateLimiter } from "./ratelimit";
+
 export type Extent = [number, number, number, number];
 
 /**
@@ -18,12 +22,33 @@ export interface EPSGInfo {
  * Cached CRS information
  */
 export interface CRSCacheEntry {
-  proj4String: string;
+  definition: string;
   bboxWGS84: Extent;
   extent: Extent;
   name: string;
 }
 
+/**
+ * Definition of a coordinate reference system
+ */
+export interface CRSDefinition {
+  name: string;
+  /** proj4 string or WKT */
+  definition: string;
+  /** Area of use in WGS84 [west, south, east, north] */
+  bboxWGS84: Extent;
+  /** Valid extent in the CRS, transformed from bboxWGS84 if omitted */
+  extent?: Extent;
+}
+
+/**
+ * Look up a CRS that is neither bundled nor registered, e.g. `epsgIOResolver`
+ *
+ * @param code - Normalized EPSG code, e.g. "EPSG:31467"
+ * @returns The definition, or undefined if the CRS is unknown
+ */
+export type CRSResolver = (code: string) => Promise<CRSDefinition | undefined>;
+
 
 /**
  * XYZ Tile Grid configuration
@@ -32,8 +57,34 @@ export interface XYZTileGrid {
   extent: Extent;
   minZoom: number;
   maxZoom: number;
-  tileSize: number;
+  /** Tile size in pixels, [width, height] for tiles that are not square */
+  tileSize: number | [number, number];
   resolutions: number[];
+  /** Top-left corner per zoom level (default: top-left corner of the extent) */
+  origins?: Array<[number, number]>;
+  /** Number of tile columns and rows per zoom level (default: 2^zoom) */
+  sizes?: Array<[number, number]>;
+}
+
+/**
+ * Tile grid published by a tile service, in the units of the CRS.
+ * Follows the options of the OpenLayers `TileGrid`.
+ */
+export interface TileGridOptions {
+  /** Resolution per zoom level in CRS units per pixel, starting at zoom 0 */
+  resolutions: number[];
+  /** Top-left corner of the grid (default: top-left corner of the extent) */
+  origin?: [number, number];
+  /** Top-left corner per zoom level, takes precedence over origin */
+  origins?: Array<[number, number]>;
+  /** Tile size in pixels, [width, height] for tiles that are not square (default: 256) */
+  tileSize?: number | [number, number];
+  /** Extent covered by the grid (default: the extent of the CRS) */
+  extent?: Extent;
+  /** Number of tile columns and rows per zoom level (default: derived from the extent) */
+  sizes?: Array<[number, number]>;
+  /** Identifier per zoom level used for `{z}`, e.g. the WMTS TileMatrix identifiers (default: the zoom level) */
+  matrixIds?: string[];
 }
 
 export interface TileRange {
@@ -48,22 +99,91 @@ export interface TileRange {
 export interface Source {
   url: string;
   subdomains?: string[];
+  /** URL templates used in rotation instead of `url`, e.g. the mirrors of a TileJSON */
+  urls?: string[];
 }
 
-interface SourceConfig extends Source {
-  /** Must be WGS84 */
-  bbox: Extent;
+/**
+ * TileJSON document describing a tile source, see https://github.com/mapbox/tilejson-spec
+ */
+export interface TileJSON {
+  tilejson: string;
+  tiles: string[];
+  name?: string;
+  description?: string;
+  attribution?: string;
+  /** Row numbering of the tiles (default: "xyz") */
+  scheme?: "xyz" | "tms";
+  minzoom?: number;
+  maxzoom?: number;
+  /** WGS84 [west, south, east, north] */
+  bounds?: Extent;
+}
+
+/**
+ * GeoJSON position, [longitude, latitude]
+ */
+export type Position = number[];
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+  type: "MultiPolygon";
+  coordinates: Position[][][];
+}
+
+export interface LineStringGeometry {
+  type: "LineString";
+  coordinates: Position[];
+}
+
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry | LineStringGeometry;
+
+/**
+ * GeoJSON geometry or feature describing the area to download
+ */
+export type AreaOfInterest =
+  | AreaGeometry
+  | { type: "Feature"; geometry: AreaGeometry; properties?: unknown };
+
+interface SourceConfig extends Omit<Source, "url"> {
+  /** URL template, taken from `tileJSON` if omitted */
+  url?: string;
+  /** TileJSON document or its URL, provides the URL templates and limits the zoom levels and bbox */
+  tileJSON?: TileJSON | string | URL;
+  /** Values of custom placeholders in the URL template, e.g. `{ apiKey: "..." }` for `{apiKey}` */
+  placeholders?: Record<string, string>;
+  /** Device pixel ratio for `{ratio}` and `{r}`, which becomes "@2x" for 2 (default: 1) */
+  pixelRatio?: number;
+  /** Build the URL of a tile, replaces the URL template */
+  tileUrlFunction?: (z: number, x: number, y: number) => string;
+  /** Headers, credentials and token refresh of the tile requests */
+  request?: RequestOptions;
+  /** Must be WGS84, derived from `area` if omitted */
+  bbox?: Extent;
+  /** Must be WGS84, only tiles intersecting the area (and the bbox, if given) are downloaded */
+  area?: AreaOfInterest;
+  /** Distance in meters the area is extended by, e.g. around a LineString (default: 0) */
+  buffer?: number;
   minZoom: number;
   maxZoom: number;
 }
 
 export interface TilesConfig extends SourceConfig {
   crs: string;
+  /** Tile grid of the source (default: XYZ grid with 256px tiles over the extent of the CRS) */
+  tileGrid?: TileGridOptions;
 }
 
 export interface FetchTilesConfig extends TilesConfig {
+  bbox: Extent;
   totalCount: number;
   tileRanges: TileRange[];
+  /** Tile grid the tile ranges refer to, needed for `{bbox}` in the URL template */
+  grid?: XYZTileGrid;
 }
 
 export interface UnfetchedTile {
@@ -74,5 +194,285 @@ export interface UnfetchedTile {
 }
 
 export interface FetchedTile extends UnfetchedTile {
+  /** Empty if `notModified` */
+  blob: Blob;
+  /** `ETag` header of the response */
+  etag?: string;
+  /** `Last-Modified` header of the response */
+  lastModified?: string;
+  /** The server answered the conditional request for the `version` of the tile with 304 */
+  notModified?: true;
+  /** Detected as empty, see `EmptyTileOptions` */
+  empty?: true;
+  /** Earlier empty tile with the same data, whose blob this tile shares */
+  reference?: Pick<UnfetchedTile, "z" | "x" | "y">;
+}
+
+/**
+ * Checks of the downloaded data, failed checks reject the tile with a `TileValidationError`
+ */
+export interface TileValidationOptions {
+  /**
+   * Allowed content types, "image/*" matches all image types
+   * (default: image types and the vector tile types "application/x-protobuf"
+   * and "application/vnd.mapbox-vector-tile")
+   */
+  contentTypes?: string[];
+  /**
+   * Check that the data of PNG, JPEG, WebP, AVIF and vector tiles starts with the
+   * magic bytes of its format and that PNG, JPEG and WebP images are complete (default: true)
+   */
+  sniff?: boolean;
+  /**
+   * Check the size of the images in pixels. `true` checks against the tile size of
+   * the grid times the pixel ratio, 256x256 for single tiles (default: false)
+   */
+  dimensions?: boolean | [number, number];
+  /** Returns the reason to reject a tile, or undefined if the tile is valid */
+  validate?: (
+    tile: FetchedTile,
+    data: Uint8Array<ArrayBuffer>
+  ) => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Detection of empty tiles, like blank ocean tiles or tiles outside the coverage
+ *
+ * Responses with 204 No Content and empty bodies are always empty.
+ */
+export interface EmptyTileOptions {
+  /** SHA-256 hashes of the blank tiles of the source, see `hashTileData` */
+  hashes?: string[];
+  /** Decode PNG tiles and detect fully transparent or single-color tiles (default: true) */
+  decode?: boolean;
+  /**
+   * "skip" drops empty tiles. "reference" keeps the first empty tile of every kind and
+   * yields later copies with its blob and a `reference` to it; tiles without data are
+   * still dropped (default: "skip")
+   */
+  action?: "skip" | "reference";
+}
+
+/**
+ * Version of a tile from a previous download, used to request only changed tiles
+ */
+export interface TileVersion {
+  etag?: string;
+  lastModified?: string;
+  /** SHA-256 hash of the tile data, detects unchanged tiles of servers without validators */
+  hash?: string;
+}
+
+/**
+ * Versions of the tiles of a previous download, keyed by "z/x/y"
+ */
+export type TileVersions = Record<string, TileVersion>;
+
+/**
+ * Retry policy for failed tile requests
+ */
+export interface RetryOptions {
+  /** Maximum number of requests per tile, including the first one */
+  maxAttempts: number;
+  /** Backoff delay in milliseconds before the first retry, doubled for every further retry */
+  baseDelay: number;
+  /** Upper bound in milliseconds for a single backoff or `Retry-After` delay */
+  maxDelay: number;
+  /** HTTP status codes that are retried. Network errors are always retried. */
+  retryStatusCodes: number[];
+  /** Wait as long as a `Retry-After` header asks for, up to `maxDelay`, instead of the backoff delay */
+  respectRetryAfter: boolean;
+}
+
+/**
+ * Options of the tile requests, e.g. for authenticated tile servers
+ */
+export interface RequestOptions {
+  /** Headers sent with every request, e.g. `Authorization`, `Referer` or `User-Agent` */
+  headers?: Record<string, string>;
+  /** Whether cookies are sent, "include" also sends them to other origins */
+  credentials?: RequestCredentials;
+  /** Query parameters added to every request, e.g. an API key. They are not part of the tile URLs. */
+  query?: Record<string, string>;
+  /**
+   * Called after a 401 response, returns headers to add to the requests, e.g. with a new token.
+   * The request is sent again with these headers, once per tile.
+   */
+  refreshHeaders?: (tile: UnfetchedTile) => Promise<Record<string, string>>;
+}
+
+/**
+ * Token bucket limit for the requests to a host
+ */
+export interface RateLimit {
+  /** Requests per second, the rate the bucket refills at */
+  requestsPerSecond: number;
+  /** Requests that can be sent at once after a pause, the size of the bucket (default: 1) */
+  burst?: number;
+  /** Maximum number of tiles of a download, e.g. from the usage policy of the provider */
+  maxTiles?: number;
+}
+
+/**
+ * Tile stored in a cache together with the validators of its response
+ */
+export interface TileCacheEntry {
   blob: Blob;
+  /** Time the tile was downloaded or last revalidated, in milliseconds since the epoch */
+  storedAt: number;
+  /** `ETag` header of the response */
+  etag?: string;
+  /** `Last-Modified` header of the response */
+  lastModified?: string;
+}
+
+/**
+ * Storage backend of the tile cache
+ */
+export interface TileCache {
+  get(key: string): Promise<TileCacheEntry | undefined>;
+  set(key: string, entry: TileCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface TileCacheOptions {
+  store: TileCache;
+  /** Milliseconds a cached tile is used without asking the server (default: 1 day) */
+  ttl?: number;
+  /** Revalidate expired tiles with a conditional request instead of downloading them again (default: true) */
+  revalidate?: boolean;
+  /** Key of a tile in the store (default: the tile URL) */
+  getKey?: (tile: UnfetchedTile) => string;
+}
+
+export interface FetchTileOptions {
+  retry?: Partial<RetryOptions>;
+  /** Cache consulted before the network, downloaded tiles are added to it */
+  cache?: TileCacheOptions;
+  /** Limits the requests per host, shared by all downloads it is passed to */
+  rateLimiter?: RateLimiter;
+  /** Request the tile only if it changed since this version */
+  version?: TileVersion;
+  /** Headers, credentials and token refresh of the requests (default: the `request` of the config) */
+  request?: RequestOptions;
+  /** Detect empty tiles and mark them as `empty` */
+  emptyTiles?: EmptyTileOptions;
+  /** Checks of the content type and data of the tiles */
+  validation?: TileValidationOptions;
+  /** Cancels the request and any pending retry */
+  signal?: AbortSignal;
+}
+
+export interface FetchTileResultsOptions extends Omit<FetchTileOptions, "version"> {
+  maxParallelDownloads?: number;
+  /** Request the tiles only if they changed since these versions, see `fetchTileUpdates` */
+  versions?: TileVersions;
+  /**
+   * Rate limits per host, added to the defaults for public providers. A key matches
+   * the host and its subdomains, "*" matches every host. Ignored if `rateLimiter` is set.
+   */
+  rateLimits?: Record<string, RateLimit>;
+  /**
+   * Whether a download with more tiles from a host than its `maxTiles` fails, or
+   * continues after this function is called with the error (default: "error")
+   */
+  onTileLimitExceeded?: "error" | ((error: TileLimitError) => void);
+  /** Stop the download with a `ByteBudgetError` once the downloaded tiles exceed this many bytes */
+  maxBytes?: number;
+  /**
+   * Skip the tiles recorded as done and record the outcome of every tile.
+   * A tile is recorded once the consumer asks for the next one.
+   */
+  checkpoint?: DownloadCheckpoint;
+  /** Stops scheduling new tiles while paused */
+  pauseController?: PauseController;
+  /** Called after every finished tile */
+  onProgress?: (progress: DownloadProgress) => void;
+  /** Called with the summary once all tiles have been processed */
+  onComplete?: (summary: FetchSummary) => void;
+}
+
+export interface FetchTilesOptions extends FetchTileResultsOptions {
+  /**
+   * Called for every tile that failed after all retries.
+   * If set, the download continues with the remaining tiles,
+   * otherwise the first failure is thrown from the generator.
+   */
+  onTileError?: (error: TileFetchError) => void;
+}
+
+export interface TileSuccess {
+  ok: true;
+  tile: FetchedTile;
+}
+
+export interface TileFailure {
+  ok: false;
+  tile: UnfetchedTile;
+  /** HTTP status of the last response, undefined for network errors */
+  status?: number;
+  error: TileFetchError;
+}
+
+/**
+ * Outcome of a single tile download
+ */
+export type TileResult = TileSuccess | TileFailure;
+
+/**
+ * Summary of a finished download run
+ */
+export interface FetchSummary {
+  totalCount: number;
+  succeeded: number;
+  /** Empty tiles that were dropped, see `EmptyTileOptions` */
+  skipped: number;
+  failed: TileFailure[];
+}
+
+/**
+ * Sorted, non-overlapping inclusive intervals [start, end] of tile indices
+ */
+export type TileIndexIntervals = Array<[number, number]>;
+
+export interface CheckpointRange extends Omit<TileRange, "count"> {
+  done: TileIndexIntervals;
+  failed: TileIndexIntervals;
+}
+
+/**
+ * Serializable download progress.
+ * Tiles are identified by their index within each `TileRange`, in the x/y iteration order of the download.
+ */
+export interface DownloadCheckpoint {
+  version: 1;
+  ranges: CheckpointRange[];
+}
+
+export interface ZoomProgress {
+  zoom: number;
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Progress of a running download
+ */
+export interface DownloadProgress {
+  /** Tiles downloaded successfully, including tiles completed in an earlier run */
+  completed: number;
+  failed: number;
+  total: number;
+  /** Bytes downloaded in this run */
+  bytes: number;
+  /** Rolling average over the last seconds */
+  tilesPerSecond: number;
+  /** Rolling average over the last seconds */
+  bytesPerSecond: number;
+  /** Milliseconds since the download started */
+  elapsedTime: number;
+  /** Estimated milliseconds until all tiles are finished, undefined until the first tile is done */
+  remainingTime?: number;
+  zooms: ZoomProgress[];
 }
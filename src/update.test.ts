@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import { fetchTileUpdates, getTileKey } from "./update";
+import { hashTileData } from "./utils";
+import type { FetchTilesConfig, TileVersions } from "./types";
+import type { TileUpdate } from "./update";
+import { fakePNG, startMockServer } from "./test-utils";
+
+// Conditional headers of every request, by tile
+const conditionalRequests = new Map<string, string | null>();
+
+/**
+ * Current state of the tiles on the server, by "z/x/y"
+ */
+const serverTiles: Record<string, { data: string; etag?: string } | number> = {
+  "11/1099/671": { data: "a", etag: '"a1"' },
+  "11/1100/671": { data: "b2", etag: '"b2"' },
+  "11/1099/672": { data: "c" },
+  "11/1100/672": 404,
+  "11/1099/673": { data: "e", etag: '"e1"' },
+  "11/1100/673": 500,
+};
+
+const TEST_PORT = startMockServer((req) => {
+  const key = new URL(req.url).pathname.slice(1).replace(/\.png$/, "");
+  const tile = serverTiles[key];
+  conditionalRequests.set(key, req.headers.get("If-None-Match"));
+
+  if (tile === undefined || typeof tile === "number") {
+    return new Response("Error", { status: tile ?? 404 });
+  }
+  if (tile.etag && req.headers.get("If-None-Match") === tile.etag) {
+    return new Response(null, { status: 304 });
+  }
+  return new Response(fakePNG(tile.data), {
+    headers: { "Content-Type": "image/png", ...(tile.etag ? { ETag: tile.etag } : {}) },
+  });
+});
+
+const config: FetchTilesConfig = {
+  url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+  bbox: [13.3, 52.4, 13.4, 52.55],
+  minZoom: 11,
+  maxZoom: 11,
+  crs: "EPSG:3857",
+  totalCount: 6,
+  tileRanges: [{ zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 673, count: 6 }],
+};
+
+describe("fetchTileUpdates", () => {
+  test("yields the changes since the previous versions", async () => {
+    const versions: TileVersions = {
+      "11/1099/671": { etag: '"a1"' },
+      "11/1100/671": { etag: '"b1"' },
+      "11/1099/672": { hash: await hashTileData(fakePNG("c")) },
+      "11/1100/672": { etag: '"d1"' },
+    };
+
+    const updates = new Map<string, TileUpdate>();
+    const generator = fetchTileUpdates(config, versions, { retry: { maxAttempts: 1 } });
+    let next = await generator.next();
+    while (!next.done) {
+      updates.set(getTileKey(next.value.tile), next.value);
+      next = await generator.next();
+    }
+
+    expect(Object.fromEntries([...updates].map(([key, update]) => [key, update.status]))).toEqual({
+      "11/1099/671": "unchanged",
+      "11/1100/671": "updated",
+      "11/1099/672": "unchanged",
+      "11/1100/672": "deleted",
+      "11/1099/673": "new",
+      "11/1100/673": "failed",
+    });
+    expect(next.value).toMatchObject({
+      totalCount: 6,
+      new: 1,
+      updated: 1,
+      unchanged: 2,
+      deleted: 1,
+    });
+    expect(next.value.failed).toHaveLength(1);
+
+    // Only tiles with an ETag are requested conditionally
+    expect(conditionalRequests.get("11/1099/671")).toBe('"a1"');
+    expect(conditionalRequests.get("11/1099/672")).toBeNull();
+
+    const notModified = updates.get("11/1099/671");
+    expect(notModified?.status === "unchanged" && notModified.tile.notModified).toBe(true);
+    expect(notModified?.status === "unchanged" && notModified.version).toEqual({ etag: '"a1"' });
+
+    const updated = updates.get("11/1100/671");
+    expect(updated?.status === "updated" && new Uint8Array(await updated.tile.blob.arrayBuffer())).toEqual(
+      fakePNG("b2")
+    );
+    expect(updated?.status === "updated" && updated.version).toEqual({
+      etag: '"b2"',
+      lastModified: undefined,
+      hash: await hashTileData(fakePNG("b2")),
+    });
+  });
+
+  test("counts dropped empty tiles in the summary", async () => {
+    const generator = fetchTileUpdates(
+      config,
+      {},
+      {
+        retry: { maxAttempts: 1 },
+        emptyTiles: { hashes: [await hashTileData(fakePNG("c"))], decode: false },
+      }
+    );
+    const statuses: string[] = [];
+    let next = await generator.next();
+    while (!next.done) {
+      statuses.push(next.value.status);
+      next = await generator.next();
+    }
+
+    const { totalCount, skipped, failed, deleted, ...changed } = next.value;
+    expect(skipped).toBe(1);
+    expect(statuses).toHaveLength(5);
+    expect(changed.new + changed.updated + changed.unchanged + deleted + skipped + failed.length).toBe(
+      totalCount
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { fetchTileResults } from "./tiles";
+import { hashTileData } from "./utils";
+import type { TileFetchError } from "./errors";
+import type {
+  FetchedTile,
+  FetchTileResultsOptions,
+  FetchTilesConfig,
+  TileFailure,
+  TileVersion,
+  TileVersions,
+  UnfetchedTile,
+} from "./types";
+
+/**
+ * Change of a tile since the previous download. Tiles the server answered
+ * with 304 are unchanged and have an empty blob.
+ */
+export type TileUpdate =
+  | { status: "new" | "updated" | "unchanged"; tile: FetchedTile; version: TileVersion }
+  | { status: "deleted"; tile: UnfetchedTile }
+  | { status: "failed"; tile: UnfetchedTile; error: TileFetchError };
+
+export interface TileUpdateSummary {
+  totalCount: number;
+  new: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  /** Empty tiles that were dropped, see `EmptyTileOptions` */
+  skipped: number;
+  failed: TileFailure[];
+}
+
+/** Status codes of tiles that no longer exist */
+const DELETED_STATUS_CODES = [404, 410];
+
+/**
+ * Key of a tile in `TileVersions`
+ */
+export function getTileKey(tile: Pick<UnfetchedTile, "z" | "x" | "y">): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+/**
+ * Download the changes since a previous download and yield the change of every tile
+ *
+ * Tiles with an ETag or Last-Modified date are requested conditionally, so unchanged
+ * tiles are not downloaded again. Tiles of servers without validators are compared
+ * by the hash of their data. Tiles of the previous download that respond with 404
+ * or 410 are deleted. The `version` of every tile is meant to be kept for the next update.
+ *
+ * @param config - Config of the tiles to update
+ * @param versions - Versions of the previous download, keyed by `getTileKey`
+ */
+export async function* fetchTileUpdates(
+  config: FetchTilesConfig,
+  versions: TileVersions,
+  options: Omit<FetchTileResultsOptions, "versions"> = {}
+): AsyncGenerator<TileUpdate, TileUpdateSummary, unknown> {
+  const summary: TileUpdateSummary = {
+    totalCount: config.totalCount,
+    new: 0,
+    updated: 0,
+    unchanged: 0,
+    deleted: 0,
+    skipped: 0,
+    failed: [],
+  };
+
+  for await (const result of fetchTileResults(config, {
+    ...options,
+    versions,
+    onComplete: (fetchSummary) => {
+      // Dropped tiles are not yielded
+      summary.skipped = fetchSummary.skipped;
+      options.onComplete?.(fetchSummary);
+    },
+  })) {
+    const previous = versions[getTileKey(result.tile)];
+
+    if (!result.ok) {
+      if (previous && result.status !== undefined && DELETED_STATUS_CODES.includes(result.status)) {
+        summary.deleted++;
+        yield { status: "deleted", tile: result.tile };
+      } else {
+        summary.failed.push(result);
+        yield { status: "failed", tile: result.tile, error: result.error };
+      }
+      continue;
+    }
+
+    const { tile } = result;
+    if (tile.notModified) {
+      summary.unchanged++;
+      yield { status: "unchanged", tile, version: { ...previous } };
+      continue;
+    }
+
+    const hash = await hashTileData(new Uint8Array(await tile.blob.arrayBuffer()));
+    const version: TileVersion = { etag: tile.etag, lastModified: tile.lastModified, hash };
+    const status = !previous ? "new" : previous.hash === hash ? "unchanged" : "updated";
+
+    summary[status]++;
+    yield { status, tile, version };
+  }
+
+  return summary;
+}
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { formatBytes } from "./utils";
+import { formatBytes, getTileFormat, hashTileData } from "./utils";
 
 describe("formatBytes", () => {
   test("formats zero bytes", () => {
@@ -49,3 +49,34 @@ describe("formatBytes", () => {
     expect(formatBytes(51200)).toBe("50.00 KB");
   });
 });
+
+describe("getTileFormat", () => {
+  test("maps image MIME types", () => {
+    expect(getTileFormat("image/png")).toBe("png");
+    expect(getTileFormat("image/jpeg")).toBe("jpg");
+    expect(getTileFormat("image/webp")).toBe("webp");
+  });
+
+  test("maps vector tile MIME types", () => {
+    expect(getTileFormat("application/x-protobuf")).toBe("pbf");
+    expect(getTileFormat("application/vnd.mapbox-vector-tile")).toBe("pbf");
+  });
+
+  test("ignores parameters and case", () => {
+    expect(getTileFormat("Image/PNG; charset=binary")).toBe("png");
+  });
+
+  test("returns undefined for unknown types", () => {
+    expect(getTileFormat("text/html")).toBeUndefined();
+    expect(getTileFormat("")).toBeUndefined();
+  });
+});
+
+describe("hashTileData", () => {
+  test("hashes with SHA-256", async () => {
+    const data = new TextEncoder().encode("abc");
+    expect(await hashTileData(data)).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
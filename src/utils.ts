@@ -17,3 +17,31 @@ export function formatBytes(bytes: number, decimals: number = 2): string {
 
   return `${value.toFixed(dm)} ${sizes[i]}`;
 }
+
+const MIME_TYPE_FORMATS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "application/x-protobuf": "pbf",
+  "application/vnd.mapbox-vector-tile": "pbf",
+};
+
+/**
+ * Get the tile format for a MIME type (e.g., "image/png" -> "png")
+ * @returns Format as used by MBTiles and as file extension, undefined for unknown types
+ */
+export function getTileFormat(mimeType: string): string | undefined {
+  // Ignore parameters like "; charset=..."
+  const type = mimeType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return MIME_TYPE_FORMATS[type];
+}
+
+/**
+ * Hex encoded SHA-256 hash of the data
+ */
+export async function hashTileData(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
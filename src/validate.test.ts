@@ -0,0 +1,200 @@
+import { describe, test, expect } from "bun:test";
+import { getImageSize, sniffTileFormat, validateTile } from "./validate";
+import { TileFetchError, TileValidationError } from "./errors";
+import { fetchTile, fetchTileResults } from "./tiles";
+import type { FetchTilesConfig, TileFailure } from "./types";
+import { startMockServer } from "./test-utils";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const IEND = [0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82];
+
+/**
+ * PNG header of the size without image data, the CRCs are not checked
+ */
+function createPNG(width: number, height: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(25);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 13);
+  header.set([0x49, 0x48, 0x44, 0x52], 4);
+  view.setUint32(8, width);
+  view.setUint32(12, height);
+  header.set([8, 6, 0, 0, 0], 16);
+  return new Uint8Array([...PNG_SIGNATURE, ...header, ...IEND]);
+}
+
+const text = (content: string) => [...content].map((char) => char.charCodeAt(0));
+
+// SOF0 frame of 512x256 pixels after an APP0 segment
+const JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0x00, 0x02, 0x00, 0x01, 0x00, 0x00, 0x00,
+  0xff, 0xd9,
+]);
+
+// Lossless WebP of 256x256 pixels
+const bits = 255 | (255 << 14);
+const WEBP = new Uint8Array([
+  ...text("RIFF"), 22, 0, 0, 0, ...text("WEBP"), ...text("VP8L"), 9, 0, 0, 0,
+  0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, (bits >> 24) & 0xff,
+  0, 0, 0, 0, 0,
+]);
+
+// File type box and image spatial extents of 256x512 pixels
+const AVIF = new Uint8Array([
+  0, 0, 0, 16, ...text("ftyp"), ...text("mif1"), ...text("avif"),
+  0, 0, 0, 20, ...text("ispe"), 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 2, 0,
+]);
+
+const GZIP = new Uint8Array([0x1f, 0x8b, 0x08, 0x00]);
+
+const TEST_PORT = startMockServer((req) => {
+  const path = new URL(req.url).pathname;
+
+  if (path === "/html.png") {
+    return new Response("<html>Error</html>", { headers: { "Content-Type": "image/png" } });
+  }
+  if (path === "/truncated.png") {
+    return new Response(createPNG(256, 256).subarray(0, 30), {
+      headers: { "Content-Type": "image/png" },
+    });
+  }
+  if (path === "/tile.pbf") {
+    return new Response(GZIP, { headers: { "Content-Type": "application/x-protobuf" } });
+  }
+  // Tiles of 512 pixels, /{z}/{x}/{y}.png
+  return new Response(createPNG(512, 512), { headers: { "Content-Type": "image/png" } });
+});
+
+const createTile = (data: Uint8Array<ArrayBuffer> | string, type: string) => ({
+  url: "https://example.com/0/0/0",
+  x: 0,
+  y: 0,
+  z: 0,
+  blob: new Blob([data], { type }),
+});
+
+describe("sniffTileFormat", () => {
+  test("detects the formats by their magic bytes", () => {
+    expect(sniffTileFormat(createPNG(1, 1))).toBe("png");
+    expect(sniffTileFormat(JPEG)).toBe("jpg");
+    expect(sniffTileFormat(WEBP)).toBe("webp");
+    expect(sniffTileFormat(AVIF)).toBe("avif");
+    expect(sniffTileFormat(GZIP)).toBe("gzip");
+    expect(sniffTileFormat(new TextEncoder().encode("<html>"))).toBeUndefined();
+  });
+});
+
+describe("getImageSize", () => {
+  test("reads the size of every image format", () => {
+    expect(getImageSize(createPNG(512, 256))).toEqual([512, 256]);
+    expect(getImageSize(JPEG)).toEqual([512, 256]);
+    expect(getImageSize(WEBP)).toEqual([256, 256]);
+    expect(getImageSize(AVIF)).toEqual([256, 512]);
+    expect(getImageSize(GZIP)).toBeUndefined();
+  });
+});
+
+describe("validateTile", () => {
+  test("accepts images and vector tiles", async () => {
+    expect(await validateTile(createTile(createPNG(256, 256), "image/png"))).toBeUndefined();
+    expect(await validateTile(createTile(JPEG, "image/jpeg"))).toBeUndefined();
+    expect(await validateTile(createTile(GZIP, "application/x-protobuf"))).toBeUndefined();
+    // Decompressed by fetch, starting with a layer
+    const layer = new Uint8Array([0x1a, 0x02, 0x78, 0x02]);
+    expect(await validateTile(createTile(layer, "application/vnd.mapbox-vector-tile"))).toBeUndefined();
+  });
+
+  test("rejects unexpected content types", async () => {
+    expect(await validateTile(createTile("<html>", "text/html"))).toEqual({
+      reason: "content-type",
+      message: "Response has the unexpected content type text/html",
+    });
+    expect(
+      await validateTile(createTile(createPNG(1, 1), "image/png"), { contentTypes: ["image/webp"] })
+    ).toMatchObject({ reason: "content-type" });
+  });
+
+  test("rejects data that doesn't match the content type", async () => {
+    expect(await validateTile(createTile("<html>", "image/png"))).toEqual({
+      reason: "format",
+      message: "Response data is not a valid image/png tile",
+    });
+    expect(await validateTile(createTile("<html>", "application/x-protobuf"))).toMatchObject({
+      reason: "format",
+    });
+    expect(await validateTile(createTile("<html>", "image/png"), { sniff: false })).toBeUndefined();
+  });
+
+  test("rejects truncated images", async () => {
+    const truncated = createTile(JPEG.subarray(0, 20), "image/jpeg");
+    expect(await validateTile(truncated)).toEqual({
+      reason: "truncated",
+      message: "Response data of the image/jpeg tile is truncated",
+    });
+  });
+
+  test("checks the dimensions if asked to", async () => {
+    const tile = createTile(createPNG(512, 512), "image/png");
+
+    expect(await validateTile(tile)).toBeUndefined();
+    expect(await validateTile(tile, { dimensions: true })).toEqual({
+      reason: "dimensions",
+      message: "Tile has 512x512 pixels, expected 256x256",
+    });
+    expect(await validateTile(tile, { dimensions: [512, 512] })).toBeUndefined();
+  });
+
+  test("runs the custom validator", async () => {
+    const validate = (_tile: unknown, data: Uint8Array) =>
+      data.length < 100 ? "Tile is too small" : undefined;
+
+    expect(await validateTile(createTile(createPNG(1, 1), "image/png"), { validate })).toEqual({
+      reason: "custom",
+      message: "Tile is too small",
+    });
+  });
+});
+
+describe("fetchTile validation", () => {
+  const getTile = (path: string) => ({ url: `http://localhost:${TEST_PORT}${path}`, x: 0, y: 0, z: 0 });
+
+  test("rejects invalid tiles with a TileValidationError", async () => {
+    const error = await fetchTile(getTile("/html.png")).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TileValidationError);
+    expect(error).toBeInstanceOf(TileFetchError);
+    expect(error).toMatchObject({ reason: "format", status: 200, attempts: 1 });
+    expect(await fetchTile(getTile("/truncated.png")).catch((error) => error.reason)).toBe(
+      "truncated"
+    );
+  });
+
+  test("accepts vector tiles", async () => {
+    const tile = await fetchTile(getTile("/tile.pbf"));
+    expect(tile.blob.type).toBe("application/x-protobuf");
+  });
+
+  test("checks the dimensions against the grid and pixel ratio", async () => {
+    const config: FetchTilesConfig = {
+      url: `http://localhost:${TEST_PORT}/{z}/{x}/{y}.png`,
+      bbox: [-180, -85, 180, 85],
+      minZoom: 0,
+      maxZoom: 0,
+      crs: "EPSG:3857",
+      totalCount: 1,
+      tileRanges: [{ zoom: 0, minX: 0, maxX: 0, minY: 0, maxY: 0, count: 1 }],
+    };
+    const validation = { dimensions: true };
+
+    const [failure] = await Array.fromAsync(fetchTileResults(config, { validation }));
+    expect((failure as TileFailure).error).toMatchObject({
+      reason: "dimensions",
+      message: "Tile has 512x512 pixels, expected 256x256",
+    });
+
+    const [success] = await Array.fromAsync(
+      fetchTileResults({ ...config, pixelRatio: 2 }, { validation })
+    );
+    expect(success?.ok).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { isPNG, readPNGHeader } from "./png";
+import { getTileFormat } from "./utils";
+import type { TileValidationReason } from "./errors";
+import type { FetchedTile, TileValidationOptions } from "./types";
+
+export const DEFAULT_CONTENT_TYPES = [
+  "image/*",
+  "application/x-protobuf",
+  "application/vnd.mapbox-vector-tile",
+];
+
+/** Tile size of `dimensions: true` without a grid */
+const DEFAULT_TILE_SIZE: [number, number] = [256, 256];
+
+const IMAGE_FORMATS = ["png", "jpg", "webp", "avif"];
+
+export interface TileValidationFailure {
+  reason: TileValidationReason;
+  message: string;
+}
+
+function readText(data: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...data.subarray(start, end));
+}
+
+/**
+ * Format of the data by its magic bytes, "gzip" for compressed vector tiles
+ */
+export function sniffTileFormat(data: Uint8Array): string | undefined {
+  if (isPNG(data)) return "png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "jpg";
+  if (readText(data, 0, 4) === "RIFF" && readText(data, 8, 12) === "WEBP") return "webp";
+  if (readText(data, 4, 8) === "ftyp") {
+    // Major brand and compatible brands of the file type box
+    const boxSize = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+    for (let offset = 8; offset + 4 <= Math.min(boxSize, data.length); offset += 4) {
+      if (["avif", "avis"].includes(readText(data, offset, offset + 4))) return "avif";
+    }
+  }
+  if (data[0] === 0x1f && data[1] === 0x8b) return "gzip";
+  return undefined;
+}
+
+/** Bytes after the end marker of an image that are tolerated, like padding */
+const MAX_TRAILING_BYTES = 32;
+
+/**
+ * Whether the end marker of the image format is found at the end of the data
+ */
+function isComplete(data: Uint8Array, format: string): boolean {
+  const tail = data.subarray(Math.max(0, data.length - MAX_TRAILING_BYTES - 8));
+
+  switch (format) {
+    case "png":
+      // Type of the IEND chunk
+      return readText(tail, 0, tail.length).includes("IEND");
+    case "jpg":
+      // End of image marker
+      return tail.some((byte, i) => byte === 0xff && tail[i + 1] === 0xd9);
+    case "webp": {
+      const riffSize = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(4, true);
+      return data.length >= riffSize + 8;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Width and height of an image in pixels, undefined if they can't be read
+ */
+export function getImageSize(data: Uint8Array): [number, number] | undefined {
+  const format = sniffTileFormat(data);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (format === "png") {
+    const header = readPNGHeader(data);
+    return header && [header.width, header.height];
+  }
+
+  if (format === "jpg") {
+    for (let offset = 2; offset + 9 <= data.length; ) {
+      if (data[offset] !== 0xff) return undefined;
+      const marker = data[offset + 1] as number;
+      // Start of frame markers, except DHT, JPG and DAC
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return [view.getUint16(offset + 7), view.getUint16(offset + 5)];
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return undefined;
+  }
+
+  if (format === "webp" && data.length >= 30) {
+    const chunk = readText(data, 12, 16);
+    if (chunk === "VP8 ") {
+      return [view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff];
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+    }
+    if (chunk === "VP8X") {
+      const width = view.getUint16(24, true) + ((data[26] as number) << 16);
+      const height = view.getUint16(27, true) + ((data[29] as number) << 16);
+      return [width + 1, height + 1];
+    }
+    return undefined;
+  }
+
+  if (format === "avif") {
+    // Image spatial extents property: size, "ispe", version and flags, width, height
+    for (let offset = 4; offset + 16 <= data.length; offset++) {
+      if (readText(data, offset, offset + 4) === "ispe") {
+        return [view.getUint32(offset + 8), view.getUint32(offset + 12)];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function isAllowedType(type: string, contentTypes: string[]): boolean {
+  return contentTypes.some((allowed) =>
+    allowed.endsWith("/*") ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  );
+}
+
+/**
+ * Check the content type and data of a downloaded tile
+ *
+ * @returns The failed check, undefined if the tile is valid
+ */
+export async function validateTile(
+  tile: FetchedTile,
+  options: TileValidationOptions = {}
+): Promise<TileValidationFailure | undefined> {
+  const { contentTypes = DEFAULT_CONTENT_TYPES, sniff = true, dimensions = false, validate } = options;
+  // Ignore parameters like "; charset=..."
+  const type = tile.blob.type.split(";")[0]?.trim().toLowerCase() ?? "";
+
+  if (!isAllowedType(type, contentTypes)) {
+    return {
+      reason: "content-type",
+      message: type ? `Response has the unexpected content type ${type}` : "Response has no content type",
+    };
+  }
+
+  const data = new Uint8Array(await tile.blob.arrayBuffer());
+  const declaredFormat = getTileFormat(type);
+  const format = sniffTileFormat(data);
+
+  if (sniff && declaredFormat) {
+    // Vector tiles are gzipped, or plain protobuf starting with a layer
+    const valid =
+      declaredFormat === "pbf"
+        ? format === "gzip" || data[0] === 0x1a
+        : format !== undefined && IMAGE_FORMATS.includes(format);
+    if (!valid) {
+      return { reason: "format", message: `Response data is not a valid ${type} tile` };
+    }
+    if (format && !isComplete(data, format)) {
+      return { reason: "truncated", message: `Response data of the ${type} tile is truncated` };
+    }
+  }
+
+  if (dimensions && format && IMAGE_FORMATS.includes(format)) {
+    const [width, height] = dimensions === true ? DEFAULT_TILE_SIZE : dimensions;
+    const size = getImageSize(data);
+    if (size && (size[0] !== width || size[1] !== height)) {
+      return {
+        reason: "dimensions",
+        message: `Tile has ${size[0]}x${size[1]} pixels, expected ${width}x${height}`,
+      };
+    }
+  }
+
+  const message = await validate?.(tile, data);
+  return message === undefined ? undefined : { reason: "custom", message };
+}
@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { createWMSSource } from "./wms";
+import { fetchTiles, processTilesConfig } from "./tiles";
+import { createXYZ } from "ol/tilegrid";
+import { get as getProjection } from "ol/proj";
+import { fakePNG, startMockServer } from "./test-utils";
+
+const requestedURLs: URL[] = [];
+
+const TEST_PORT = startMockServer((req) => {
+  requestedURLs.push(new URL(req.url));
+  return new Response(fakePNG("map"), { headers: { "Content-Type": "image/png" } });
+});
+
+describe("createWMSSource", () => {
+  test("builds a GetMap URL template", async () => {
+    const source = await createWMSSource({
+      url: "https://example.com/wms?map=roads",
+      crs: "EPSG:3857",
+      layers: ["roads", "labels"],
+      transparent: true,
+      parameters: { TIME: "2024" },
+    });
+
+    expect(source).toEqual({
+      url: "https://example.com/wms?map=roads&SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=roads%2Clabels&STYLES=&FORMAT=image%2Fpng&TRANSPARENT=TRUE&CRS=EPSG%3A3857&TIME=2024&BBOX={bbox}&WIDTH={width}&HEIGHT={height}",
+      crs: "EPSG:3857",
+    });
+  });
+
+  test("puts the latitude first for geographic CRS in 1.3.0 only", async () => {
+    const source130 = await createWMSSource({
+      url: "https://example.com/wms",
+      crs: "EPSG:4326",
+      layers: "roads",
+    });
+    const source111 = await createWMSSource({
+      url: "https://example.com/wms",
+      crs: "EPSG:4326",
+      layers: "roads",
+      version: "1.1.1",
+    });
+
+    expect(source130.url).toContain("&CRS=EPSG%3A4326&BBOX={bbox-yx}&");
+    expect(source111.url).toStartWith("https://example.com/wms?SERVICE=WMS&REQUEST=GetMap&VERSION=1.1.1");
+    expect(source111.url).toContain("&SRS=EPSG%3A4326&BBOX={bbox}&");
+  });
+});
+
+describe("fetchTiles with WMS", () => {
+  test("requests the extent of every tile", async () => {
+    requestedURLs.length = 0;
+    const source = await createWMSSource({
+      url: `http://localhost:${TEST_PORT}/wms`,
+      crs: "EPSG:3857",
+      layers: "roads",
+    });
+    const config = await processTilesConfig({
+      ...source,
+      bbox: [13.3, 52.5, 13.5, 52.55],
+      minZoom: 11,
+      maxZoom: 12,
+    });
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config)) {
+      tiles.push(tile);
+    }
+
+    const olGrid = createXYZ({ extent: getProjection("EPSG:3857")?.getExtent() });
+    expect(requestedURLs).toHaveLength(config.totalCount);
+    for (const tile of tiles) {
+      const url = new URL(tile.url);
+      const bbox = (url.searchParams.get("BBOX") ?? "").split(",").map(Number);
+      const olExtent = olGrid.getTileCoordExtent([tile.z, tile.x, tile.y]);
+
+      bbox.forEach((value, i) => expect(value).toBeCloseTo(olExtent[i] as number, 6));
+      expect(url.searchParams.get("WIDTH")).toBe("256");
+      expect(url.searchParams.get("HEIGHT")).toBe("256");
+    }
+  });
+
+  test("throws for configs without tile grid", async () => {
+    const config = await processTilesConfig({
+      url: `http://localhost:${TEST_PORT}/wms?BBOX={bbox}`,
+      bbox: [13.3, 52.5, 13.5, 52.55],
+      minZoom: 11,
+      maxZoom: 11,
+      crs: "EPSG:3857",
+    });
+    delete config.grid;
+
+    await expect(fetchTiles(config).next()).rejects.toThrow(
+      "The config has no tile grid to compute the tile extents"
+    );
+  });
+});
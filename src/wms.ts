@@ -0,0 +1,71 @@
+import { getCRSInfo, isGeographicCRS } from "./crs";
+
+export interface WMSOptions {
+  /** URL of the GetMap endpoint */
+  url: string;
+  /** CRS of the requested maps, also the CRS of the tile grid */
+  crs: string;
+  /** Names of the layers */
+  layers: string | string[];
+  /** Style per layer (default: the default styles) */
+  styles?: string | string[];
+  /** MIME type of the maps (default: "image/png") */
+  format?: string;
+  /** Request a transparent background (default: false) */
+  transparent?: boolean;
+  /** WMS version, 1.3.0 puts the latitude first for geographic CRS (default: "1.3.0") */
+  version?: "1.1.1" | "1.3.0";
+  /** Additional parameters, e.g. vendor parameters or `TIME` */
+  parameters?: Record<string, string>;
+}
+
+/**
+ * Source settings for WMS GetMap requests, to be spread into `Tiles.create`
+ */
+export interface WMSSource {
+  url: string;
+  crs: string;
+}
+
+/**
+ * Create a URL template that requests every tile with a WMS GetMap request
+ *
+ * The template uses `{bbox}` (or `{bbox-yx}`), `{width}` and `{height}`,
+ * which are filled in from the tile grid for every tile.
+ *
+ * @param options - Endpoint, layers and parameters of the GetMap request
+ */
+export async function createWMSSource(options: WMSOptions): Promise<WMSSource> {
+  const {
+    url: endpoint,
+    crs,
+    layers,
+    styles = "",
+    format = "image/png",
+    transparent = false,
+    version = "1.3.0",
+    parameters = {},
+  } = options;
+
+  // Makes sure proj4 knows the CRS
+  await getCRSInfo(crs);
+  const latitudeFirst = version === "1.3.0" && isGeographicCRS(crs);
+
+  const query = Object.entries({
+    SERVICE: "WMS",
+    REQUEST: "GetMap",
+    VERSION: version,
+    LAYERS: Array.isArray(layers) ? layers.join(",") : layers,
+    STYLES: Array.isArray(styles) ? styles.join(",") : styles,
+    FORMAT: format,
+    TRANSPARENT: transparent ? "TRUE" : "FALSE",
+    [version === "1.3.0" ? "CRS" : "SRS"]: crs,
+    ...parameters,
+  })
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .concat(latitudeFirst ? "BBOX={bbox-yx}" : "BBOX={bbox}", "WIDTH={width}", "HEIGHT={height}")
+    .join("&");
+  const separator = !endpoint.includes("?") ? "?" : /[?&]$/.test(endpoint) ? "" : "&";
+
+  return { url: `${endpoint}${separator}${query}`, crs };
+}
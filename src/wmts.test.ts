@@ -0,0 +1,192 @@
+import { describe, test, expect } from "bun:test";
+import { getWMTSSource } from "./wmts";
+import { fetchTiles, processTilesConfig } from "./tiles";
+import { fakePNG, startMockServer } from "./test-utils";
+
+const TEST_PORT = startMockServer((req) => {
+  const url = new URL(req.url);
+  requestedURLs.push(url.pathname + url.search);
+
+  if (url.pathname === "/capabilities.xml") {
+    return new Response(CAPABILITIES, { headers: { "Content-Type": "application/xml" } });
+  }
+  return new Response(fakePNG("tile"), { headers: { "Content-Type": "image/png" } });
+});
+
+const requestedURLs: string[] = [];
+
+// Scale denominators of the GoogleMapsCompatible set at zoom 0 and the following zoom levels
+const MERCATOR_SCALE = 559082264.0287178;
+
+function createMercatorMatrix(zoom: number): string {
+  const size = Math.pow(2, zoom);
+  return `
+      <TileMatrix>
+        <ows:Identifier>EPSG:3857:${zoom}</ows:Identifier>
+        <ScaleDenominator>${MERCATOR_SCALE / size}</ScaleDenominator>
+        <TopLeftCorner>-20037508.3427892 20037508.3427892</TopLeftCorner>
+        <TileWidth>256</TileWidth>
+        <TileHeight>256</TileHeight>
+        <MatrixWidth>${size}</MatrixWidth>
+        <MatrixHeight>${size}</MatrixHeight>
+      </TileMatrix>`;
+}
+
+const CAPABILITIES = `<?xml version="1.0" encoding="UTF-8"?>
+<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1"
+    xmlns:xlink="http://www.w3.org/1999/xlink" version="1.0.0">
+  <ows:OperationsMetadata>
+    <ows:Operation name="GetCapabilities">
+      <ows:DCP><ows:HTTP><ows:Get xlink:href="http://localhost:${TEST_PORT}/wmts?"/></ows:HTTP></ows:DCP>
+    </ows:Operation>
+    <ows:Operation name="GetTile">
+      <ows:DCP>
+        <ows:HTTP>
+          <ows:Get xlink:href="http://localhost:${TEST_PORT}/rest/">
+            <ows:Constraint name="GetEncoding">
+              <ows:AllowedValues><ows:Value>RESTful</ows:Value></ows:AllowedValues>
+            </ows:Constraint>
+          </ows:Get>
+          <ows:Get xlink:href="http://localhost:${TEST_PORT}/wmts?">
+            <ows:Constraint name="GetEncoding">
+              <ows:AllowedValues><ows:Value>KVP</ows:Value></ows:AllowedValues>
+            </ows:Constraint>
+          </ows:Get>
+        </ows:HTTP>
+      </ows:DCP>
+    </ows:Operation>
+  </ows:OperationsMetadata>
+  <Contents>
+    <Layer>
+      <ows:Title>Orthophotos &amp; Maps</ows:Title>
+      <ows:Identifier>orthophotos</ows:Identifier>
+      <ows:WGS84BoundingBox>
+        <ows:LowerCorner>5.9 45.8</ows:LowerCorner>
+        <ows:UpperCorner>15.1 55.1</ows:UpperCorner>
+      </ows:WGS84BoundingBox>
+      <Style><ows:Identifier>light</ows:Identifier></Style>
+      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+      <Format>image/jpeg</Format>
+      <Format>image/png</Format>
+      <Dimension>
+        <ows:Identifier>Time</ows:Identifier>
+        <Default>2024</Default>
+        <Value>2023</Value>
+        <Value>2024</Value>
+      </Dimension>
+      <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible</TileMatrixSet></TileMatrixSetLink>
+      <TileMatrixSetLink><TileMatrixSet>WGS84</TileMatrixSet></TileMatrixSetLink>
+      <ResourceURL format="image/png" resourceType="tile"
+        template="http://localhost:${TEST_PORT}/rest/orthophotos/{Style}/{Time}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.png"/>
+    </Layer>
+    <Layer>
+      <ows:Identifier>roads</ows:Identifier>
+      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+      <Format>image/png</Format>
+      <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible</TileMatrixSet></TileMatrixSetLink>
+    </Layer>
+    <TileMatrixSet>
+      <ows:Identifier>GoogleMapsCompatible</ows:Identifier>
+      <ows:SupportedCRS>urn:ogc:def:crs:EPSG:6.18.3:3857</ows:SupportedCRS>
+      ${[0, 1, 2, 3, 4, 5].map(createMercatorMatrix).join("")}
+    </TileMatrixSet>
+    <TileMatrixSet>
+      <ows:Identifier>WGS84</ows:Identifier>
+      <ows:SupportedCRS>urn:ogc:def:crs:EPSG::4326</ows:SupportedCRS>
+      <TileMatrix>
+        <ows:Identifier>0</ows:Identifier>
+        <ScaleDenominator>279541132.0143589</ScaleDenominator>
+        <TopLeftCorner>90 -180</TopLeftCorner>
+        <TileWidth>256</TileWidth>
+        <TileHeight>256</TileHeight>
+        <MatrixWidth>2</MatrixWidth>
+        <MatrixHeight>1</MatrixHeight>
+      </TileMatrix>
+    </TileMatrixSet>
+  </Contents>
+</Capabilities>`;
+
+describe("getWMTSSource", () => {
+  test("builds a RESTful URL template and the tile grid", async () => {
+    const source = await getWMTSSource(CAPABILITIES, { layer: "orthophotos" });
+
+    expect(source.url).toBe(
+      `http://localhost:${TEST_PORT}/rest/orthophotos/default/2024/GoogleMapsCompatible/{z}/{y}/{x}.png`
+    );
+    expect(source.crs).toBe("EPSG:3857");
+    expect(source.bbox).toEqual([5.9, 45.8, 15.1, 55.1]);
+    expect(source.tileGrid.matrixIds).toEqual([0, 1, 2, 3, 4, 5].map((zoom) => `EPSG:3857:${zoom}`));
+    expect(source.tileGrid.tileSize).toBe(256);
+    expect(source.tileGrid.sizes?.[3]).toEqual([8, 8]);
+    expect(source.tileGrid.origins?.[0]).toEqual([-20037508.3427892, 20037508.3427892]);
+    // Matches the resolutions of the XYZ grid
+    expect(source.tileGrid.resolutions[0]).toBeCloseTo(156543.03392804097, 6);
+    expect(source.tileGrid.resolutions[5]).toBeCloseTo(156543.03392804097 / 32, 6);
+  });
+
+  test("builds a KVP URL template", async () => {
+    const source = await getWMTSSource(CAPABILITIES, {
+      layer: "orthophotos",
+      style: "light",
+      format: "image/jpeg",
+      requestEncoding: "KVP",
+      dimensions: { Time: "2023" },
+    });
+
+    expect(source.url).toBe(
+      `http://localhost:${TEST_PORT}/wmts?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&LAYER=orthophotos&STYLE=light&FORMAT=image%2Fjpeg&TILEMATRIXSET=GoogleMapsCompatible&Time=2023&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}`
+    );
+  });
+
+  test("falls back to KVP without ResourceURL", async () => {
+    const source = await getWMTSSource(CAPABILITIES, { layer: "roads" });
+
+    expect(source.url).toStartWith(`http://localhost:${TEST_PORT}/wmts?SERVICE=WMTS`);
+    expect(source.bbox).toBeUndefined();
+  });
+
+  test("reads the latitude first for geographic CRS given as URN", async () => {
+    const source = await getWMTSSource(CAPABILITIES, {
+      layer: "orthophotos",
+      matrixSet: "WGS84",
+    });
+
+    expect(source.crs).toBe("EPSG:4326");
+    expect(source.tileGrid.origins).toEqual([[-180, 90]]);
+    expect(source.tileGrid.resolutions[0]).toBeCloseTo(180 / 256, 6);
+  });
+
+  test("lists the available options for unknown values", async () => {
+    await expect(getWMTSSource(CAPABILITIES, { layer: "buildings" })).rejects.toThrow(
+      "Layer buildings not found in WMTS capabilities, available: orthophotos, roads"
+    );
+    await expect(
+      getWMTSSource(CAPABILITIES, { layer: "orthophotos", format: "image/webp" })
+    ).rejects.toThrow("Format image/webp not found in WMTS capabilities, available: image/jpeg, image/png");
+  });
+
+  test("downloads tiles from fetched capabilities", async () => {
+    requestedURLs.length = 0;
+    const source = await getWMTSSource(
+      new URL(`http://localhost:${TEST_PORT}/capabilities.xml`),
+      { layer: "orthophotos" }
+    );
+    const config = await processTilesConfig({
+      ...source,
+      bbox: [13.3, 52.5, 13.4, 52.55],
+      minZoom: 5,
+      maxZoom: 5,
+    });
+
+    const tiles = [];
+    for await (const tile of fetchTiles(config)) {
+      tiles.push(tile);
+    }
+
+    expect(tiles).toHaveLength(1);
+    expect(requestedURLs).toEqual([
+      "/capabilities.xml",
+      "/rest/orthophotos/default/2024/GoogleMapsCompatible/EPSG:3857:5/10/17.png",
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+import { getCRSInfo, getMetersPerUnit, isGeographicCRS } from "./crs";
+import { findChild, findChildren, getChildText, parseXML } from "./xml";
+import type { XMLElement } from "./xml";
+import type { Extent, TileGridOptions } from "./types";
+
+export interface WMTSOptions {
+  /** Identifier of the layer */
+  layer: string;
+  /** Identifier of the style (default: the default style of the layer) */
+  style?: string;
+  /** MIME type of the tiles (default: the first format with a RESTful URL, otherwise the first format) */
+  format?: string;
+  /** Identifier of the TileMatrixSet (default: the first one linked to the layer) */
+  matrixSet?: string;
+  /** Request encoding (default: "RESTful" if the layer has a tile ResourceURL for the format, otherwise "KVP") */
+  requestEncoding?: "RESTful" | "KVP";
+  /** Values of the layer dimensions, e.g. `{ Time: "2024-01-01" }` (default: their default values) */
+  dimensions?: Record<string, string>;
+}
+
+/**
+ * Source settings read from WMTS capabilities, to be spread into `Tiles.create`
+ */
+export interface WMTSSource {
+  url: string;
+  crs: string;
+  tileGrid: TileGridOptions;
+  /** WGS84 bounding box of the layer, if published */
+  bbox?: Extent;
+}
+
+/** Size of a pixel in meters as defined by the WMTS standard */
+const STANDARDIZED_PIXEL_SIZE = 0.00028;
+
+/**
+ * Normalize the CRS identifiers used in capabilities to "EPSG:XXXX",
+ * e.g. "urn:ogc:def:crs:EPSG::3857" or "http://www.opengis.net/def/crs/EPSG/0/3857"
+ */
+function parseCRS(identifier: string): { crs: string; lonLat: boolean } {
+  if (/CRS:?84$/i.test(identifier)) {
+    return { crs: "EPSG:4326", lonLat: true };
+  }
+
+  const match = identifier.match(/EPSG\D*?(?:[\d.]*[:/])?(\d+)$/i);
+  if (!match) {
+    throw new Error(`Unsupported CRS ${identifier} in WMTS capabilities`);
+  }
+
+  // Only the short form keeps the longitude/latitude order of proj4
+  return { crs: `EPSG:${match[1]}`, lonLat: /^EPSG:\d+$/i.test(identifier) };
+}
+
+function parseNumbers(text: string | undefined): number[] {
+  return (text ?? "").trim().split(/\s+/).map(Number);
+}
+
+function pickOption(
+  kind: string,
+  requested: string | undefined,
+  available: string[],
+  fallback: string | undefined
+): string {
+  const value = requested ?? fallback;
+  if (value === undefined || !available.includes(value)) {
+    throw new Error(
+      `${kind} ${value} not found in WMTS capabilities, available: ${available.join(", ")}`
+    );
+  }
+  return value;
+}
+
+/**
+ * URL of the GetTile operation with KVP encoding
+ */
+function getKVPEndpoint(root: XMLElement): string | undefined {
+  const operation = findChildren(findChild(root, "OperationsMetadata"), "Operation").find(
+    (element) => element.attributes.name === "GetTile"
+  );
+  const gets = findChildren(findChild(operation, "DCP"), "HTTP").flatMap((http) =>
+    findChildren(http, "Get")
+  );
+
+  const kvpGet =
+    gets.find((get) =>
+      findChildren(get, "Constraint").some((constraint) =>
+        findChildren(findChild(constraint, "AllowedValues"), "Value").some(
+          (value) => value.text.trim() === "KVP"
+        )
+      )
+    ) ?? gets.find((get) => findChildren(get, "Constraint").length === 0);
+
+  return kvpGet?.attributes.href;
+}
+
+/**
+ * Replace a `{name}` placeholder, ignoring case
+ */
+function replacePlaceholder(template: string, name: string, value: string): string {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return template.replace(new RegExp(`\\{${escapedName}\\}`, "gi"), value);
+}
+
+/**
+ * Read the tile grid, CRS and URL template of a layer from a WMTS capabilities document
+ *
+ * The TileMatrix identifiers become the `matrixIds` of the tile grid, so `{z}`
+ * in the URL template is the position of the TileMatrix in its set.
+ *
+ * @param capabilities - Capabilities XML, or the URL to fetch it from
+ * @param options - Layer, style, format and TileMatrixSet to use
+ */
+export async function getWMTSSource(
+  capabilities: string | URL,
+  options: WMTSOptions
+): Promise<WMTSSource> {
+  let xml: string;
+  if (capabilities instanceof URL || !capabilities.trimStart().startsWith("<")) {
+    const response = await fetch(capabilities);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch WMTS capabilities from ${capabilities}: ${response.status} ${response.statusText}`
+      );
+    }
+    xml = await response.text();
+  } else {
+    xml = capabilities;
+  }
+
+  const root = parseXML(xml);
+  if (root.name !== "Capabilities") {
+    throw new Error(`Expected WMTS capabilities, got <${root.name}>`);
+  }
+
+  const contents = findChild(root, "Contents");
+  const layers = findChildren(contents, "Layer");
+  const layer = layers.find((element) => getChildText(element, "Identifier") === options.layer);
+  if (!layer) {
+    throw new Error(
+      `Layer ${options.layer} not found in WMTS capabilities, available: ${layers
+        .map((element) => getChildText(element, "Identifier"))
+        .join(", ")}`
+    );
+  }
+
+  const styles = findChildren(layer, "Style");
+  const style = pickOption(
+    "Style",
+    options.style,
+    styles.map((element) => getChildText(element, "Identifier") ?? ""),
+    getChildText(
+      styles.find((element) => element.attributes.isDefault === "true") ?? styles[0],
+      "Identifier"
+    )
+  );
+
+  const resourceURLs = findChildren(layer, "ResourceURL").filter(
+    (element) => element.attributes.resourceType === "tile"
+  );
+  const formats = findChildren(layer, "Format").map((element) => element.text.trim());
+  const format = pickOption(
+    "Format",
+    options.format,
+    formats,
+    formats.find((value) => resourceURLs.some((element) => element.attributes.format === value)) ??
+      formats[0]
+  );
+
+  const matrixSetIds = findChildren(layer, "TileMatrixSetLink").map(
+    (element) => getChildText(element, "TileMatrixSet") ?? ""
+  );
+  const matrixSetId = pickOption("TileMatrixSet", options.matrixSet, matrixSetIds, matrixSetIds[0]);
+  const matrixSet = findChildren(contents, "TileMatrixSet").find(
+    (element) => getChildText(element, "Identifier") === matrixSetId
+  );
+  if (!matrixSet) {
+    throw new Error(`TileMatrixSet ${matrixSetId} is linked but not defined in WMTS capabilities`);
+  }
+
+  const { crs, lonLat } = parseCRS(getChildText(matrixSet, "SupportedCRS") ?? "");
+  // Makes sure proj4 knows the CRS
+  await getCRSInfo(crs);
+  const metersPerUnit = getMetersPerUnit(crs);
+  // Geographic CRS given as URN or URI have the latitude first
+  const swapAxes = !lonLat && isGeographicCRS(crs);
+
+  const matrices = findChildren(matrixSet, "TileMatrix");
+  const [firstMatrix] = matrices;
+  if (!firstMatrix) {
+    throw new Error(`TileMatrixSet ${matrixSetId} has no TileMatrix`);
+  }
+
+  const tileWidth = Number(getChildText(firstMatrix, "TileWidth"));
+  const tileHeight = Number(getChildText(firstMatrix, "TileHeight"));
+  const tileGrid: TileGridOptions = {
+    resolutions: matrices.map(
+      (matrix) =>
+        (Number(getChildText(matrix, "ScaleDenominator")) * STANDARDIZED_PIXEL_SIZE) /
+        metersPerUnit
+    ),
+    origins: matrices.map((matrix) => {
+      const [first = 0, second = 0] = parseNumbers(getChildText(matrix, "TopLeftCorner"));
+      return swapAxes ? [second, first] : [first, second];
+    }),
+    tileSize: tileWidth === tileHeight ? tileWidth : [tileWidth, tileHeight],
+    sizes: matrices.map((matrix) => [
+      Number(getChildText(matrix, "MatrixWidth")),
+      Number(getChildText(matrix, "MatrixHeight")),
+    ]),
+    matrixIds: matrices.map((matrix) => getChildText(matrix, "Identifier") ?? ""),
+  };
+
+  const dimensions: Record<string, string> = {};
+  for (const dimension of findChildren(layer, "Dimension")) {
+    const identifier = getChildText(dimension, "Identifier") ?? "";
+    dimensions[identifier] =
+      options.dimensions?.[identifier] ?? getChildText(dimension, "Default") ?? "";
+  }
+
+  const resourceURL = resourceURLs.find((element) => element.attributes.format === format);
+  const requestEncoding = options.requestEncoding ?? (resourceURL ? "RESTful" : "KVP");
+
+  let url: string;
+  if (requestEncoding === "RESTful") {
+    if (!resourceURL?.attributes.template) {
+      throw new Error(`Layer ${options.layer} has no RESTful tile URL for ${format}`);
+    }
+
+    url = resourceURL.attributes.template;
+    for (const [name, value] of Object.entries({
+      ...dimensions,
+      TileMatrixSet: matrixSetId,
+      Style: style,
+    })) {
+      url = replacePlaceholder(url, name, encodeURIComponent(value));
+    }
+    url = replacePlaceholder(url, "TileMatrix", "{z}");
+    url = replacePlaceholder(url, "TileRow", "{y}");
+    url = replacePlaceholder(url, "TileCol", "{x}");
+  } else {
+    const endpoint = getKVPEndpoint(root);
+    if (!endpoint) {
+      throw new Error("WMTS capabilities have no GetTile endpoint with KVP encoding");
+    }
+
+    const parameters = Object.entries({
+      SERVICE: "WMTS",
+      REQUEST: "GetTile",
+      VERSION: "1.0.0",
+      LAYER: options.layer,
+      STYLE: style,
+      FORMAT: format,
+      TILEMATRIXSET: matrixSetId,
+      ...dimensions,
+    })
+      .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+      .concat("TILEMATRIX={z}", "TILEROW={y}", "TILECOL={x}")
+      .join("&");
+    const separator = !endpoint.includes("?") ? "?" : /[?&]$/.test(endpoint) ? "" : "&";
+    url = `${endpoint}${separator}${parameters}`;
+  }
+
+  const boundingBox = findChild(layer, "WGS84BoundingBox");
+  const [west, south] = parseNumbers(getChildText(boundingBox, "LowerCorner"));
+  const [east, north] = parseNumbers(getChildText(boundingBox, "UpperCorner"));
+  if (!boundingBox || ![west, south, east, north].every(Number.isFinite)) {
+    return { url, crs, tileGrid };
+  }
+
+  const bbox: Extent = [west as number, south as number, east as number, north as number];
+  return { url, crs, tileGrid, bbox };
+}
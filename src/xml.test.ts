@@ -0,0 +1,33 @@
+import { describe, test, expect } from "bun:test";
+import { findChild, findChildren, getChildText, parseXML } from "./xml";
+
+describe("parseXML", () => {
+  test("parses elements, attributes and text without namespace prefixes", () => {
+    const root = parseXML(`<?xml version="1.0"?>
+      <!-- comment -->
+      <ows:Root xmlns:ows="http://www.opengis.net/ows/1.1" xlink:href='a&amp;b'>
+        <ows:Item id="1">First &lt;item&gt;</ows:Item>
+        <ows:Item id="2"><![CDATA[<second>]]></ows:Item>
+        <Empty/>
+      </ows:Root>`);
+
+    expect(root.name).toBe("Root");
+    expect(root.attributes.href).toBe("a&b");
+    expect(findChildren(root, "Item").map((item) => item.attributes.id)).toEqual(["1", "2"]);
+    expect(getChildText(root, "Item")).toBe("First <item>");
+    expect(findChildren(root, "Item")[1]?.text).toBe("<second>");
+    expect(findChild(root, "Empty")?.children).toEqual([]);
+    expect(findChild(root, "Missing")).toBeUndefined();
+  });
+
+  test("decodes numeric entities", () => {
+    expect(parseXML("<a>&#228;&#x00FC;</a>").text).toBe("äü");
+  });
+
+  test("throws for malformed documents", () => {
+    expect(() => parseXML("<a><b></a>")).toThrow("unexpected closing tag </a>");
+    expect(() => parseXML("<a><b></b>")).toThrow("<a> is not closed");
+    expect(() => parseXML("<a>< b</a>")).toThrow("malformed markup");
+    expect(() => parseXML("no xml")).toThrow("text outside of the root element");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Element of a parsed XML document. Names are without namespace prefix.
+ */
+export interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  /** Text content directly inside the element */
+  text: string;
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>[]|\[[\s\S]*?\])*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Remove the namespace prefix, e.g. "ows:Identifier" -> "Identifier"
+ */
+function getLocalName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+/**
+ * Parse an XML document into a tree of elements
+ *
+ * Covers what capabilities documents need: elements, attributes, text,
+ * CDATA and entities. Comments, processing instructions and the doctype are skipped.
+ *
+ * @returns The root element
+ */
+export function parseXML(xml: string): XMLElement {
+  const root: XMLElement = { name: "", attributes: {}, children: [], text: "" };
+  const stack: XMLElement[] = [root];
+
+  let position = 0;
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [token, cdata, closingName, openingName, attributeSource, selfClosing, text] = match;
+    const parent = stack[stack.length - 1] as XMLElement;
+
+    // Characters no token matched, e.g. a "<" that doesn't start a valid tag
+    if (match.index !== position) {
+      throw new Error(`Invalid XML: malformed markup at position ${position}`);
+    }
+    position += token.length;
+
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (closingName !== undefined) {
+      if (stack.length === 1 || getLocalName(closingName) !== parent.name) {
+        throw new Error(`Invalid XML: unexpected closing tag </${closingName}>`);
+      }
+      stack.pop();
+    } else if (openingName !== undefined) {
+      const element: XMLElement = {
+        name: getLocalName(openingName),
+        attributes: {},
+        children: [],
+        text: "",
+      };
+      for (const [, name, doubleQuoted, singleQuoted] of (attributeSource ?? "").matchAll(
+        ATTRIBUTE_PATTERN
+      )) {
+        element.attributes[getLocalName(name as string)] = decodeEntities(
+          doubleQuoted ?? singleQuoted ?? ""
+        );
+      }
+
+      parent.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      if (stack.length === 1 && text.trim()) {
+        throw new Error("Invalid XML: text outside of the root element");
+      }
+      parent.text += decodeEntities(text);
+    }
+  }
+
+  if (position !== xml.length) {
+    throw new Error(`Invalid XML: malformed markup at position ${position}`);
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: <${(stack[stack.length - 1] as XMLElement).name}> is not closed`);
+  }
+
+  const [element] = root.children;
+  if (!element) {
+    throw new Error("Invalid XML: no root element");
+  }
+
+  return element;
+}
+
+/**
+ * First child element with the given name
+ */
+export function findChild(element: XMLElement | undefined, name: string): XMLElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+/**
+ * All child elements with the given name
+ */
+export function findChildren(element: XMLElement | undefined, name: string): XMLElement[] {
+  return element?.children.filter((child) => child.name === name) ?? [];
+}
+
+/**
+ * Trimmed text of the first child element with the given name
+ */
+export function getChildText(element: XMLElement | undefined, name: string): string | undefined {
+  return findChild(element, name)?.text.trim();
+}
@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import { crc32, createZipStream, writeZip } from "./zip";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+const config: FetchTilesConfig = {
+  url: "http://localhost/{z}/{x}/{y}.png",
+  bbox: [13.3, 52.5, 13.4, 52.55],
+  minZoom: 11,
+  maxZoom: 11,
+  crs: "EPSG:3857",
+  totalCount: 2,
+  tileRanges: [{ zoom: 11, minX: 1099, maxX: 1100, minY: 671, maxY: 671, count: 2 }],
+};
+
+function createTile(x: number, y: number, z: number, content: string): FetchedTile {
+  return {
+    url: `http://localhost/${z}/${x}/${y}.png`,
+    x,
+    y,
+    z,
+    blob: new Blob([content], { type: "image/png" }),
+  };
+}
+
+async function* generateTiles(tiles: FetchedTile[]): AsyncGenerator<FetchedTile> {
+  yield* tiles;
+}
+
+/**
+ * Read the entries of a ZIP archive through its central directory
+ */
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataOffset = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = bytes.subarray(dataOffset, dataOffset + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, data);
+    offset += 46 + nameLength + extraLength;
+  }
+
+  return entries;
+}
+
+describe("crc32", () => {
+  test("calculates the checksum", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("writeZip", () => {
+  test("writes tiles in a z/x/y layout with metadata", async () => {
+    const zip = await writeZip(
+      generateTiles([createTile(1099, 671, 11, "a"), createTile(1100, 671, 11, "bb")]),
+      config
+    );
+    expect(zip.type).toBe("application/zip");
+
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect([...entries.keys()]).toEqual(["11/1099/671.png", "11/1100/671.png", "metadata.json"]);
+    expect(new TextDecoder().decode(entries.get("11/1100/671.png"))).toBe("bb");
+
+    const metadata = JSON.parse(new TextDecoder().decode(entries.get("metadata.json")));
+    expect(metadata.url).toBe(config.url);
+    expect(metadata.bbox).toEqual(config.bbox);
+    expect(metadata.format).toBe("png");
+    expect(metadata.tileRanges).toEqual(config.tileRanges);
+  });
+
+  test("places entries in a folder", async () => {
+    const zip = await writeZip(generateTiles([createTile(1099, 671, 11, "a")]), config, {
+      folder: "berlin/",
+    });
+
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect([...entries.keys()]).toEqual(["berlin/11/1099/671.png", "berlin/metadata.json"]);
+  });
+});
+
+describe("createZipStream", () => {
+  test("streams the same archive as writeZip", async () => {
+    const tiles = [createTile(1099, 671, 11, "a"), createTile(1100, 671, 11, "bb")];
+    const stream = createZipStream(generateTiles(tiles), config);
+
+    const entries = readZip(new Uint8Array(await new Response(stream).arrayBuffer()));
+    expect(entries.size).toBe(3);
+    expect(new TextDecoder().decode(entries.get("11/1099/671.png"))).toBe("a");
+  });
+
+  test("pulls tiles on demand", async () => {
+    let pulledTiles = 0;
+    async function* countingTiles(): AsyncGenerator<FetchedTile> {
+      for (let x = 0; x < 100; x++) {
+        pulledTiles++;
+        yield createTile(x, 0, 11, "tile");
+      }
+    }
+
+    const reader = createZipStream(countingTiles(), config).getReader();
+    await reader.read();
+    await reader.read();
+
+    expect(pulledTiles).toBeLessThan(5);
+    await reader.cancel();
+  });
+});
@@ -0,0 +1,288 @@
+import { getTileFormat } from "./utils";
+import type { FetchedTile, FetchTilesConfig } from "./types";
+
+export interface ZipOptions {
+  /** Folder all entries are placed in (default: none) */
+  folder?: string;
+  /** Name of the metadata file (default: "metadata.json") */
+  metadataFileName?: string;
+}
+
+/**
+ * Position and checksum of a written entry, kept for the central directory
+ */
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/** Values at or above this limit are stored in the ZIP64 extra field */
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_ENTRY_LIMIT = 0xffff;
+/** Bit 11: file names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC32_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time in MS-DOS format
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date:
+      ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+function createLocalFileHeader(
+  entry: Omit<ZipEntry, "offset">,
+  modified: { time: number; date: number }
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(30 + entry.name.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true); // version needed to extract
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true); // stored without compression
+  view.setUint16(10, modified.time, true);
+  view.setUint16(12, modified.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true); // compressed size
+  view.setUint32(22, entry.size, true); // uncompressed size
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, 0, true); // extra field length
+  bytes.set(entry.name, 30);
+
+  return bytes;
+}
+
+function createCentralDirectoryHeader(
+  entry: ZipEntry,
+  modified: { time: number; date: number }
+): Uint8Array<ArrayBuffer> {
+  const zip64 = entry.offset >= ZIP64_LIMIT;
+  const extraLength = zip64 ? 12 : 0;
+  const bytes = new Uint8Array(46 + entry.name.length + extraLength);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, zip64 ? 45 : 20, true); // version made by
+  view.setUint16(6, zip64 ? 45 : 20, true); // version needed to extract
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true); // stored without compression
+  view.setUint16(12, modified.time, true);
+  view.setUint16(14, modified.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, entry.size, true);
+  view.setUint32(24, entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extraLength, true);
+  // comment length, disk number, internal and external attributes stay 0
+  view.setUint32(42, zip64 ? ZIP64_LIMIT : entry.offset, true);
+  bytes.set(entry.name, 46);
+
+  if (zip64) {
+    const extraOffset = 46 + entry.name.length;
+    view.setUint16(extraOffset, 0x0001, true);
+    view.setUint16(extraOffset + 2, 8, true);
+    view.setBigUint64(extraOffset + 4, BigInt(entry.offset), true);
+  }
+
+  return bytes;
+}
+
+/**
+ * End of central directory, preceded by the ZIP64 records if the limits of the classic format are exceeded
+ */
+function createEndOfCentralDirectory(
+  entryCount: number,
+  centralDirectoryOffset: number,
+  centralDirectorySize: number
+): Uint8Array<ArrayBuffer> {
+  const zip64 =
+    entryCount >= ZIP64_ENTRY_LIMIT ||
+    centralDirectoryOffset >= ZIP64_LIMIT ||
+    centralDirectorySize >= ZIP64_LIMIT;
+  const zip64Length = zip64 ? 56 + 20 : 0;
+  const bytes = new Uint8Array(zip64Length + 22);
+  const view = new DataView(bytes.buffer);
+
+  if (zip64) {
+    const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+    // ZIP64 end of central directory record
+    view.setUint32(0, 0x06064b50, true);
+    view.setBigUint64(4, 44n, true); // size of the remaining record
+    view.setUint16(12, 45, true);
+    view.setUint16(14, 45, true);
+    view.setBigUint64(24, BigInt(entryCount), true);
+    view.setBigUint64(32, BigInt(entryCount), true);
+    view.setBigUint64(40, BigInt(centralDirectorySize), true);
+    view.setBigUint64(48, BigInt(centralDirectoryOffset), true);
+    // ZIP64 end of central directory locator
+    view.setUint32(56, 0x07064b50, true);
+    view.setBigUint64(64, BigInt(zip64EndOffset), true);
+    view.setUint32(72, 1, true); // total number of disks
+  }
+
+  const offset = zip64Length;
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, Math.min(entryCount, ZIP64_ENTRY_LIMIT), true);
+  view.setUint16(offset + 10, Math.min(entryCount, ZIP64_ENTRY_LIMIT), true);
+  view.setUint32(offset + 12, Math.min(centralDirectorySize, ZIP64_LIMIT), true);
+  view.setUint32(offset + 16, Math.min(centralDirectoryOffset, ZIP64_LIMIT), true);
+
+  return bytes;
+}
+
+/**
+ * Generate the parts of the ZIP archive in order: for every tile the local
+ * file header followed by the tile blob, then the metadata file and the
+ * central directory
+ */
+async function* generateZipParts(
+  tiles: AsyncIterable<FetchedTile>,
+  config: FetchTilesConfig,
+  options: ZipOptions
+): AsyncGenerator<Uint8Array<ArrayBuffer> | Blob, void, unknown> {
+  const { folder, metadataFileName = "metadata.json" } = options;
+  const prefix = folder ? `${folder.replace(/\/+$/, "")}/` : "";
+  const modified = toDosDateTime(new Date());
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let format: string | undefined;
+
+  // Register an entry and return its local file header
+  function addEntry(name: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+    const entry: ZipEntry = {
+      name: encoder.encode(prefix + name),
+      crc: crc32(data),
+      size: data.length,
+      offset,
+    };
+    const header = createLocalFileHeader(entry, modified);
+    entries.push(entry);
+    offset += header.length + entry.size;
+    return header;
+  }
+
+  for await (const tile of tiles) {
+    const data = new Uint8Array(await tile.blob.arrayBuffer());
+    const extension = getTileFormat(tile.blob.type) ?? "bin";
+    format ??= extension;
+
+    yield addEntry(`${tile.z}/${tile.x}/${tile.y}.${extension}`, data);
+    // The blob instead of the bytes, so writeZip doesn't hold a copy of every tile
+    yield tile.blob;
+  }
+
+  const metadata = encoder.encode(
+    JSON.stringify(
+      {
+        url: config.url,
+        subdomains: config.subdomains,
+        bbox: config.bbox,
+        minZoom: config.minZoom,
+        maxZoom: config.maxZoom,
+        crs: config.crs,
+        scheme: "xyz",
+        format,
+        totalCount: config.totalCount,
+        tileRanges: config.tileRanges,
+      },
+      null,
+      2
+    )
+  );
+  yield addEntry(metadataFileName, metadata);
+  yield metadata;
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+  for (const entry of entries) {
+    const header = createCentralDirectoryHeader(entry, modified);
+    centralDirectorySize += header.length;
+    yield header;
+  }
+
+  yield createEndOfCentralDirectory(entries.length, centralDirectoryOffset, centralDirectorySize);
+}
+
+/**
+ * Stream tiles into a ZIP archive with a `{z}/{x}/{y}.{ext}` layout and a metadata JSON file
+ *
+ * Tiles are stored uncompressed and written as soon as they arrive,
+ * only one tile is held at a time. Works without Node APIs.
+ *
+ * @param tiles - Tiles to write, e.g. `tiles.fetch()`
+ * @param config - Config the tiles were downloaded with
+ */
+export function createZipStream(
+  tiles: AsyncIterable<FetchedTile>,
+  config: FetchTilesConfig,
+  options: ZipOptions = {}
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const parts = generateZipParts(tiles, config, options);
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await parts.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(
+          value instanceof Blob ? new Uint8Array(await value.arrayBuffer()) : value
+        );
+      }
+    },
+    async cancel() {
+      // Stops the download as well
+      await parts.return();
+    },
+  });
+}
+
+/**
+ * Write tiles to a ZIP archive, see `createZipStream`
+ *
+ * @returns The archive, e.g. to offer as download with `URL.createObjectURL`
+ */
+export async function writeZip(
+  tiles: AsyncIterable<FetchedTile>,
+  config: FetchTilesConfig,
+  options: ZipOptions = {}
+): Promise<Blob> {
+  const parts: Array<Uint8Array<ArrayBuffer> | Blob> = [];
+  for await (const part of generateZipParts(tiles, config, options)) {
+    parts.push(part);
+  }
+
+  return new Blob(parts, { type: "application/zip" });
+}